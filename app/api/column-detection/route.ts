@@ -0,0 +1,94 @@
+import {
+  ColumnDetectionRequest,
+  LlmColumnDetection,
+} from "../../../lib/llm-column-detection";
+import { getRequestUserId } from "../../../lib/request-auth";
+
+// Limits that keep the route to the column detection the importer sends,
+// since every request is paid for
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_COLUMNS = 200;
+const MAX_FIELDS = 200;
+const MAX_REQUESTS_PER_MINUTE = 20;
+
+// Request times per user within the last minute. Kept per server instance,
+// which is enough to stop one user from running up the bill.
+const recentRequests = new Map<string, number[]>();
+
+const isRateLimited = (userId: string): boolean => {
+  const now = Date.now();
+  const times = (recentRequests.get(userId) || []).filter(
+    (time) => now - time < 60 * 1000
+  );
+  const limited = times.length >= MAX_REQUESTS_PER_MINUTE;
+  if (!limited) times.push(now);
+  recentRequests.set(userId, times);
+  return limited;
+};
+
+// Forwards column detection to an OpenAI-compatible chat completions API.
+// LLM_BASE_URL can point at a local model server or a mock; the API key
+// stays on the server. Callers must be signed in to Firebase.
+export async function POST(request: Request) {
+  const baseUrl = process.env.LLM_BASE_URL || "https://api.openai.com/v1";
+  const apiKey = process.env.LLM_API_KEY;
+  const model = process.env.LLM_MODEL || "gpt-4o-mini";
+
+  let userId: string | null;
+  try {
+    userId = await getRequestUserId(request);
+  } catch (error) {
+    console.error("Failed to verify column detection caller:", error);
+    return Response.json({ error: "Column detection failed" }, { status: 502 });
+  }
+  if (!userId) {
+    return Response.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (isRateLimited(userId)) {
+    return Response.json({ error: "Too many requests" }, { status: 429 });
+  }
+
+  if (Number(request.headers.get("Content-Length")) > MAX_BODY_BYTES) {
+    return Response.json({ error: "Request too large" }, { status: 413 });
+  }
+  let body: ColumnDetectionRequest;
+  try {
+    const text = await request.text();
+    if (text.length > MAX_BODY_BYTES) {
+      return Response.json({ error: "Request too large" }, { status: 413 });
+    }
+    body = JSON.parse(text);
+  } catch {
+    return Response.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  if (
+    !Array.isArray(body?.headers) ||
+    !Array.isArray(body?.sampleData) ||
+    !Array.isArray(body?.fields)
+  ) {
+    return Response.json(
+      { error: "headers, sampleData and fields are required" },
+      { status: 400 }
+    );
+  }
+  if (body.headers.length > MAX_COLUMNS || body.fields.length > MAX_FIELDS) {
+    return Response.json(
+      {
+        error: `At most ${MAX_COLUMNS} columns and ${MAX_FIELDS} fields are supported`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const suggestions = await LlmColumnDetection.requestSuggestions(
+      { baseUrl, apiKey, model },
+      body
+    );
+    return Response.json({ suggestions });
+  } catch (error) {
+    // The upstream error can name the model server or echo its response
+    console.error("LLM column detection failed:", error);
+    return Response.json({ error: "Column detection failed" }, { status: 502 });
+  }
+}
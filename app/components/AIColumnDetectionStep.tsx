@@ -7,6 +7,8 @@ import {
   FieldDetectionResult,
   FieldMappingService,
 } from "../../lib/field-mapping";
+import { ImportWorkerClient } from "../../lib/import-worker";
+import { authService } from "../../lib/auth";
 import GridBackground from "../../components/ui/grid-background";
 import Image from "next/image";
 
@@ -75,7 +77,7 @@ export default function AIColumnDetectionStep({
         setIsAnalyzing(true);
         setProgress(0);
 
-        const fieldMappingService = new FieldMappingService();
+        const referenceDataPromise = FieldMappingService.loadReferenceData();
 
         const progressSteps = [
           { step: "Loading field patterns...", progress: 20 },
@@ -97,10 +99,14 @@ export default function AIColumnDetectionStep({
         console.log("Sample data:", fileData.rows.slice(0, 3));
 
         let mappings;
+        const worker = new ImportWorkerClient();
         try {
-          mappings = await fieldMappingService.analyzeFileHeaders(
+          mappings = await worker.analyzeFileHeaders(
             fileData.headers,
-            fileData.rows.slice(0, 10)
+            // Enough rows to judge how varied each column's values are
+            fileData.rows.slice(0, 50),
+            await referenceDataPromise,
+            await authService.getIdToken()
           );
         } catch (serviceError) {
           console.warn(
@@ -117,6 +123,7 @@ export default function AIColumnDetectionStep({
             const isCustomField = suggestedField === "new_custom_field";
 
             return {
+              columnIndex: index,
               columnName: header,
               suggestedField: suggestedField,
               confidence: 60,
@@ -139,6 +146,8 @@ export default function AIColumnDetectionStep({
                 : undefined,
             };
           });
+        } finally {
+          worker.terminate();
         }
 
         console.log("Field mapping results:", mappings);
@@ -6,22 +6,23 @@ import { Plus, Settings, Edit2, Trash2, Check, X, Lock } from "lucide-react";
 import { ContactField } from "../../types/firestore";
 import { contactFieldService } from "../../lib/collections";
 
+const EMPTY_FORM = {
+  label: "",
+  fieldName: "",
+  type: "text" as ContactField["type"],
+  required: false,
+  options: [] as string[],
+};
+
+// Field types whose values are picked from a list of options
+const hasOptions = (type: ContactField["type"]) =>
+  type === "select" || type === "multiselect";
+
 export default function FieldManagement() {
   const [fields, setFields] = useState<ContactField[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingField, setEditingField] = useState<ContactField | null>(null);
-  const [formData, setFormData] = useState({
-    label: "",
-    fieldName: "",
-    type: "text" as
-      | "text"
-      | "number"
-      | "phone"
-      | "email"
-      | "datetime"
-      | "checkbox",
-    required: false,
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   useEffect(() => {
     loadFields();
@@ -43,6 +44,14 @@ export default function FieldManagement() {
       return;
     }
 
+    // Blank and repeated options are dropped
+    const options = Array.from(
+      new Set(formData.options.map((option) => option.trim()).filter(Boolean))
+    );
+    if (hasOptions(formData.type) && options.length === 0) {
+      return;
+    }
+
     try {
       if (editingField) {
         if (!editingField.core) {
@@ -51,6 +60,7 @@ export default function FieldManagement() {
             fieldName: formData.fieldName.trim(),
             type: formData.type,
             required: formData.required,
+            options: hasOptions(formData.type) ? options : [],
           });
         }
       } else {
@@ -60,10 +70,11 @@ export default function FieldManagement() {
           type: formData.type,
           core: false,
           required: formData.required,
+          ...(hasOptions(formData.type) && { options }),
         });
       }
 
-      setFormData({ label: "", fieldName: "", type: "text", required: false });
+      setFormData(EMPTY_FORM);
       setShowAddForm(false);
       setEditingField(null);
       await loadFields();
@@ -79,6 +90,7 @@ export default function FieldManagement() {
       fieldName: field.fieldName,
       type: field.type,
       required: field.required || false,
+      options: field.options || [],
     });
     setShowAddForm(true);
   };
@@ -106,8 +118,22 @@ export default function FieldManagement() {
     }
   };
 
+  const updateOption = (index: number, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      options: prev.options.map((option, i) => (i === index ? value : option)),
+    }));
+  };
+
+  const removeOption = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+    }));
+  };
+
   const cancelEdit = () => {
-    setFormData({ label: "", fieldName: "", type: "text", required: false });
+    setFormData(EMPTY_FORM);
     setShowAddForm(false);
     setEditingField(null);
   };
@@ -212,13 +238,9 @@ export default function FieldManagement() {
                   onChange={(e) =>
                     setFormData((prev) => ({
                       ...prev,
-                      type: e.target.value as
-                        | "text"
-                        | "number"
-                        | "phone"
-                        | "email"
-                        | "datetime"
-                        | "checkbox",
+                      type: e.target.value as ContactField["type"],
+                      // Start a new option list with one empty option
+                      options: prev.options.length > 0 ? prev.options : [""],
                     }))
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -242,6 +264,12 @@ export default function FieldManagement() {
                   <option key="checkbox" value="checkbox">
                     Checkbox
                   </option>
+                  <option key="select" value="select">
+                    Select
+                  </option>
+                  <option key="multiselect" value="multiselect">
+                    Multi-select
+                  </option>
                 </select>
               </div>
 
@@ -268,6 +296,55 @@ export default function FieldManagement() {
               </div>
             </div>
 
+            {hasOptions(formData.type) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Options
+                </label>
+                <div className="space-y-2">
+                  {formData.options.map((option, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={option}
+                        onChange={(e) => updateOption(index, e.target.value)}
+                        className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={`Option ${index + 1}`}
+                        disabled={editingField?.core}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeOption(index)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove option"
+                        disabled={editingField?.core}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      options: [...prev.options, ""],
+                    }))
+                  }
+                  className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  disabled={editingField?.core}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add option
+                </button>
+                <p className="text-xs text-gray-500 mt-1">
+                  At least one option is needed. Imported values are matched to
+                  these ignoring case.
+                </p>
+              </div>
+            )}
+
             <div className="flex items-center justify-end space-x-3 pt-4">
               <button
                 type="button"
@@ -439,6 +516,14 @@ export default function FieldManagement() {
                       <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
                         {field.type}
                       </span>
+                      {hasOptions(field.type) && field.options?.length ? (
+                        <div
+                          className="mt-1 text-xs text-gray-500 max-w-xs truncate"
+                          title={field.options.join(", ")}
+                        >
+                          {field.options.join(", ")}
+                        </div>
+                      ) : null}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {field.required ? (
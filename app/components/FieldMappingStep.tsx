@@ -3,8 +3,12 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { Search, Target, Wrench } from "lucide-react";
-import { FieldDetectionResult } from "../../lib/field-mapping";
+import {
+  FieldDetectionResult,
+  FieldMappingService,
+} from "../../lib/field-mapping";
 import { contactFieldService } from "../../lib/collections";
+import { SPLIT_NAME_FIELD } from "../../lib/name-splitting";
 import { ContactField } from "../../types/firestore";
 import Image from "next/image";
 
@@ -65,6 +69,10 @@ export default function FieldMappingStep({
   const availableFields = getAvailableFields();
   const highConfidenceCount = mappings.filter((m) => m.confidence >= 90).length;
   const customFieldCount = mappings.filter((m) => m.isCustomField).length;
+  const template = mappings.find((m) => m.template)?.template;
+  const preset = FieldMappingService.detectPreset(
+    mappings.map((m) => m.columnName)
+  );
 
   return (
     <div className="flex flex-col h-[500px] max-w-full overflow-hidden">
@@ -78,6 +86,19 @@ export default function FieldMappingStep({
             mappings. Review the results and proceed to the next step to make
             any adjustments.
           </p>
+          {template ? (
+            <p className="text-[13px] text-[#0959D1] bg-[#E7F5FB] border border-[#AACCFF] rounded-lg px-3 py-2 -mt-3 mb-4">
+              Mapped using your saved template &quot;{template.name}&quot;.
+            </p>
+          ) : (
+            preset && (
+              <p className="text-[13px] text-[#0959D1] bg-[#E7F5FB] border border-[#AACCFF] rounded-lg px-3 py-2 -mt-3 mb-4">
+                Recognized a {preset.name} export. Its columns were mapped using
+                the standard {preset.name} layout, with the primary email and
+                phone picked from the numbered columns.
+              </p>
+            )
+          )}
 
           <div className="flex gap-4">
             <div className="bg-green-100 border-2 border-green-200 rounded-[12px] px-6 py-3 flex items-center gap-4 h-[48px] flex-1">
@@ -123,7 +144,7 @@ export default function FieldMappingStep({
         <div className="space-y-3">
           {mappings.map((mapping, index) => (
             <motion.div
-              key={mapping.columnName}
+              key={mapping.columnIndex}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
@@ -158,6 +179,8 @@ export default function FieldMappingStep({
                         )?.label ||
                         (mapping.suggestedField === "new_custom_field"
                           ? "New Custom Field"
+                          : mapping.suggestedField === SPLIT_NAME_FIELD
+                          ? "First & Last Name (split)"
                           : mapping.suggestedField)
                       : "Select field..."}
                   </span>
@@ -40,7 +40,15 @@ export const FileUpload = ({
   error,
   maxFiles = 5,
   maxSize = 10 * 1024 * 1024, // 10MB
-  acceptedTypes = [".csv", ".xlsx", ".xls"],
+  acceptedTypes = [
+    ".csv",
+    ".xlsx",
+    ".xls",
+    ".vcf",
+    ".json",
+    ".ndjson",
+    ".jsonl",
+  ],
 }: FileUploadProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -77,7 +85,7 @@ export const FileUpload = ({
       if (!acceptedTypes.includes(extension)) {
         return {
           valid: false,
-          error: "Only CSV and Excel files are supported",
+          error: "Only CSV, Excel, vCard and JSON files are supported",
         };
       }
 
@@ -136,6 +144,9 @@ export const FileUpload = ({
         ".xlsx",
       ],
       "application/vnd.ms-excel": [".xls"],
+      "text/vcard": [".vcf"],
+      "application/json": [".json"],
+      "application/x-ndjson": [".ndjson", ".jsonl"],
     },
   });
 
@@ -146,8 +157,8 @@ export const FileUpload = ({
           Upload Your Contact Files
         </h4>
         <p className="text-base text-[#68818C] leading-[1.2]">
-          Upload CSV or Excel files to import contacts with smart field mapping.
-          Support for up to {maxFiles} files at once.
+          Upload CSV, Excel, vCard or JSON files to import contacts with smart
+          field mapping. Support for up to {maxFiles} files at once.
         </p>
       </div>
 
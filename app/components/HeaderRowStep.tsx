@@ -0,0 +1,202 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { NO_HEADER_ROW, ParsedFileData } from "../../lib/file-processing";
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  CSV_QUOTE_CHARS,
+  CsvEncoding,
+  CsvFormat,
+} from "../../lib/csv-format";
+
+interface HeaderRowStepProps {
+  fileData: ParsedFileData;
+  detectedHeaderRow: number;
+  isLoading?: boolean;
+  onHeaderRowChange: (headerRow: number) => void;
+  onCsvFormatChange?: (csvFormat: Partial<CsvFormat>) => void;
+}
+
+const selectClassName =
+  "px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
+// Columns shown per row in the preview
+const PREVIEW_COLUMNS = 6;
+
+export default function HeaderRowStep({
+  fileData,
+  detectedHeaderRow,
+  isLoading = false,
+  onHeaderRowChange,
+  onCsvFormatChange,
+}: HeaderRowStepProps) {
+  const topRows = fileData.topRows || [];
+  const headerRow = fileData.headerRowIndex || 0;
+  const csvFormat = fileData.csvFormat;
+
+  return (
+    <div className="flex flex-col h-[500px] max-w-full overflow-hidden">
+      <div className="flex-shrink-0 p-4 pb-0">
+        <div className="rounded-lg p-2">
+          <h2 className="text-[18px] font-semibold text-[#0E4259] mb-3 leading-[100%] tracking-[0%]">
+            Preview File
+          </h2>
+          <p className="text-[#68818C] text-[17px] font-normal mb-4 leading-[120%] tracking-[0%]">
+            {csvFormat &&
+              "If the rows below look garbled, change the encoding or delimiter. "}
+            {detectedHeaderRow === NO_HEADER_ROW
+              ? "The file looks like it has no column names, so every row is imported."
+              : detectedHeaderRow > 0
+              ? `The column names look like they are on row ${
+                  detectedHeaderRow + 1
+                }. Rows above the header are skipped.`
+              : "The column names look like they are on the first row."}{" "}
+            Pick another row if this is wrong.
+          </p>
+
+          {csvFormat && onCsvFormatChange && (
+            <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-[#0E4259]">
+              <label className="flex items-center gap-2">
+                Encoding
+                <select
+                  value={csvFormat.encoding}
+                  disabled={isLoading}
+                  onChange={(e) =>
+                    onCsvFormatChange({
+                      encoding: e.target.value as CsvEncoding,
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  {CSV_ENCODINGS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Delimiter
+                <select
+                  value={csvFormat.delimiter}
+                  disabled={isLoading}
+                  onChange={(e) =>
+                    onCsvFormatChange({ delimiter: e.target.value })
+                  }
+                  className={selectClassName}
+                >
+                  {CSV_DELIMITERS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Quotes
+                <select
+                  value={csvFormat.quoteChar}
+                  disabled={isLoading}
+                  onChange={(e) =>
+                    onCsvFormatChange({ quoteChar: e.target.value })
+                  }
+                  className={selectClassName}
+                >
+                  {CSV_QUOTE_CHARS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {csvFormat.hasBOM && (
+                <span className="text-[12px] text-[#556B75] bg-[#F4F5F6] px-2 py-1 rounded">
+                  Byte order mark detected
+                </span>
+              )}
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 text-sm text-[#0E4259]">
+            Header is on row
+            <select
+              value={headerRow}
+              disabled={isLoading}
+              onChange={(e) => onHeaderRowChange(Number(e.target.value))}
+              className={selectClassName}
+            >
+              <option value={NO_HEADER_ROW}>
+                File has no header row
+                {detectedHeaderRow === NO_HEADER_ROW ? " (detected)" : ""}
+              </option>
+              {topRows.map((_, index) => (
+                <option key={index} value={index}>
+                  {index + 1}
+                  {index === detectedHeaderRow ? " (detected)" : ""}
+                </option>
+              ))}
+            </select>
+            {isLoading && (
+              <span className="text-[13px] text-[#556B75]">
+                Re-reading file...
+              </span>
+            )}
+          </label>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6">
+        <div className="space-y-2">
+          {topRows.map((row, index) => {
+            const isHeader = index === headerRow;
+            const isSkipped = index < headerRow;
+
+            return (
+              <motion.button
+                key={index}
+                type="button"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.03 }}
+                disabled={isLoading}
+                onClick={() => onHeaderRowChange(index)}
+                className={`w-full flex items-center gap-4 text-left border rounded-[12px] px-4 py-2 ${
+                  isHeader
+                    ? "border-[#1970F3] bg-[#EEF4FF]"
+                    : "border-[#EEEEEE] bg-white hover:bg-[#F9FAFB]"
+                } ${isSkipped ? "opacity-50" : ""}`}
+              >
+                <span className="text-[12px] text-[#556B75] w-14 flex-shrink-0">
+                  Row {index + 1}
+                </span>
+                <div className="flex items-center gap-2 overflow-hidden flex-1">
+                  {row.slice(0, PREVIEW_COLUMNS).map((cell, cellIndex) => (
+                    <span
+                      key={cellIndex}
+                      className={`text-[13px] px-2 py-1 rounded whitespace-nowrap truncate max-w-[140px] ${
+                        isHeader
+                          ? "font-medium text-[#0E4259] bg-white"
+                          : "text-[#556B75] bg-[#F4F5F6]"
+                      }`}
+                    >
+                      {cell || " "}
+                    </span>
+                  ))}
+                  {row.length > PREVIEW_COLUMNS && (
+                    <span className="text-[13px] text-[#556B75]">
+                      +{row.length - PREVIEW_COLUMNS}
+                    </span>
+                  )}
+                </div>
+                <span className="text-[12px] text-[#556B75] flex-shrink-0">
+                  {isHeader ? "Header" : isSkipped ? "Skipped" : ""}
+                </span>
+              </motion.button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
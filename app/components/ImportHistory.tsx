@@ -0,0 +1,479 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  Calendar,
+  FileSpreadsheet,
+  History,
+  RotateCcw,
+  User,
+} from "lucide-react";
+import {
+  Contact,
+  ImportSession,
+  ImportSessionDetails,
+  User as UserType,
+} from "../../types/firestore";
+import {
+  contactService,
+  importSessionService,
+  userService,
+} from "../../lib/collections";
+import { FileProcessingService } from "../../lib/file-processing";
+import { ContactImportService } from "../../lib/contact-import";
+
+const STATUS_STYLES: Record<ImportSession["status"], string> = {
+  pending: "bg-gray-100 text-gray-800",
+  processing: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-yellow-100 text-yellow-800",
+  reverted: "bg-purple-100 text-purple-800",
+};
+
+export default function ImportHistory() {
+  const [sessions, setSessions] = useState<ImportSession[]>([]);
+  const [users, setUsers] = useState<UserType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSession, setSelectedSession] = useState<ImportSession | null>(
+    null
+  );
+  const [details, setDetails] = useState<ImportSessionDetails | null>(null);
+  const [createdContacts, setCreatedContacts] = useState<Contact[]>([]);
+  const [mergedContacts, setMergedContacts] = useState<Contact[]>([]);
+  const [loadingContacts, setLoadingContacts] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [sessionsData, usersData] = await Promise.all([
+        importSessionService.getSessions(),
+        userService.getUsers(),
+      ]);
+
+      setSessions(sessionsData);
+      setUsers(usersData);
+    } catch (error) {
+      console.error("Failed to load import sessions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSession = async (session: ImportSession) => {
+    setSelectedSession(session);
+    setDetails(null);
+    setCreatedContacts([]);
+    setMergedContacts([]);
+
+    try {
+      setLoadingContacts(true);
+      const sessionDetails = await importSessionService.getDetails(session);
+      setDetails(sessionDetails);
+
+      const [created, merged] = await Promise.all([
+        contactService.getContactsByIds(sessionDetails.createdContactIds),
+        contactService.getContactsByIds(sessionDetails.mergedContactIds),
+      ]);
+
+      setCreatedContacts(created);
+      setMergedContacts(merged);
+    } catch (error) {
+      console.error("Failed to load import contacts:", error);
+    } finally {
+      setLoadingContacts(false);
+    }
+  };
+
+  const handleRevert = async (
+    session: ImportSession,
+    sessionDetails: ImportSessionDetails
+  ) => {
+    if (
+      !confirm(
+        `Revert the import of "${session.fileName}"? Contacts it created will be deleted and contacts it merged into will be restored.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsReverting(true);
+      const editedIds = await ContactImportService.findEditedSinceImport(
+        sessionDetails
+      );
+
+      let skipIds: string[] = [];
+      if (
+        editedIds.length > 0 &&
+        !confirm(
+          `${editedIds.length} contacts were edited after this import. Press OK to revert them anyway, or Cancel to leave them as they are.`
+        )
+      ) {
+        skipIds = editedIds;
+      }
+
+      const result = await ContactImportService.revertImport(
+        session,
+        sessionDetails,
+        skipIds
+      );
+      alert(
+        `Import reverted: ${result.deleted} contacts deleted, ${result.restored} restored, ${result.skipped} left unchanged.`
+      );
+
+      setSelectedSession(null);
+      await loadData();
+    } catch (error) {
+      console.error("Failed to revert import:", error);
+      alert(error instanceof Error ? error.message : "Failed to revert import");
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const getCreatorName = (createdBy: string): string => {
+    const user = users.find((u) => u.uid === createdBy);
+    return user?.name || createdBy;
+  };
+
+  const formatDate = (timestamp: unknown): string => {
+    if (!timestamp) return "N/A";
+
+    // Handle Firestore Timestamp objects
+    if (
+      typeof timestamp === "object" &&
+      timestamp !== null &&
+      "toDate" in timestamp
+    ) {
+      const firestoreTimestamp = timestamp as { toDate: () => Date };
+      return firestoreTimestamp.toDate().toLocaleString();
+    }
+
+    return "N/A";
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6">
+          <div className="animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-4 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (selectedSession) {
+    const errorDetails =
+      details?.errorDetails || selectedSession.results.errorDetails || [];
+    const mappedFields = Object.entries(selectedSession.mappedFields || {});
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-6"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">
+              {selectedSession.fileName}
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Imported by {getCreatorName(selectedSession.createdBy)} on{" "}
+              {formatDate(selectedSession.createdOn)}
+            </p>
+            {selectedSession.status === "reverted" && (
+              <p className="mt-1 text-sm text-purple-700">
+                Reverted by{" "}
+                {getCreatorName(selectedSession.revertedBy || "anonymous")} on{" "}
+                {formatDate(selectedSession.revertedOn)}
+              </p>
+            )}
+          </div>
+
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            {selectedSession.status === "completed" && details && (
+              <button
+                onClick={() => handleRevert(selectedSession, details)}
+                disabled={isReverting}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {isReverting ? "Reverting..." : "Revert Import"}
+              </button>
+            )}
+            <button
+              onClick={() => setSelectedSession(null)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Imports
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">Total Rows</div>
+            <div className="text-2xl font-bold text-gray-900">
+              {selectedSession.totalRows}
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">Imported</div>
+            <div className="text-2xl font-bold text-green-600">
+              {selectedSession.results.imported}
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">Merged</div>
+            <div className="text-2xl font-bold text-blue-600">
+              {selectedSession.results.merged}
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">Errors</div>
+            <div className="text-2xl font-bold text-red-600">
+              {selectedSession.results.errors}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Field Mapping</h3>
+          </div>
+          {mappedFields.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">
+              No mapping was recorded for this import.
+            </p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    File Column
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Contact Field
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {mappedFields.map(([columnName, fieldName]) => (
+                  <tr key={columnName}>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {columnName}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-500">
+                      {fieldName}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Errors ({errorDetails.length})
+            </h3>
+          </div>
+          {errorDetails.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">
+              No row errors were recorded for this import.
+            </p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-200">
+              {errorDetails.map((detail, index) => (
+                <div key={index} className="px-6 py-3">
+                  <div className="text-sm font-medium text-red-700">
+                    {detail.row > 0 ? `Row ${detail.row}: ` : ""}
+                    {detail.error}
+                  </div>
+                  {Object.keys(detail.data).length > 0 && (
+                    <div className="mt-1 text-xs text-gray-500 break-words">
+                      {Object.entries(detail.data)
+                        .map(([key, value]) => `${key}: ${value}`)
+                        .join(" • ")}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {[
+          { title: "Created Contacts", contacts: createdContacts },
+          { title: "Merged Contacts", contacts: mergedContacts },
+        ].map(({ title, contacts }) => (
+          <div
+            key={title}
+            className="bg-white rounded-lg shadow overflow-hidden"
+          >
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {title} ({contacts.length})
+              </h3>
+            </div>
+            {loadingContacts ? (
+              <p className="px-6 py-4 text-sm text-gray-500">
+                Loading contacts...
+              </p>
+            ) : contacts.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-500">None</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto divide-y divide-gray-200">
+                {contacts.map((contact) => (
+                  <div
+                    key={contact.id}
+                    className="px-6 py-3 flex items-center justify-between text-sm"
+                  >
+                    <span className="font-medium text-gray-900">
+                      {contact.firstName} {contact.lastName}
+                    </span>
+                    <span className="text-gray-500">
+                      {contact.email} • {contact.phone}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </motion.div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Import History</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Review past imports and what they changed ({sessions.length} imports)
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {sessions.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No imports yet
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Imports will show up here once you upload a contact file.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    File
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Rows
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Results
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Created By
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sessions.map((session) => (
+                  <tr
+                    key={session.id}
+                    onClick={() => openSession(session)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <FileSpreadsheet className="h-5 w-5 text-blue-600 mr-3" />
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">
+                            {session.fileName}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {FileProcessingService.formatFileSize(
+                              session.fileSize
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {session.totalRows}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className="text-green-600">
+                        {session.results.imported} imported
+                      </span>
+                      {" • "}
+                      <span className="text-blue-600">
+                        {session.results.merged} merged
+                      </span>
+                      {" • "}
+                      <span className="text-red-600">
+                        {session.results.errors} errors
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                          STATUS_STYLES[session.status]
+                        }`}
+                      >
+                        {session.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <User className="h-4 w-4 text-gray-400 mr-2" />
+                        {getCreatorName(session.createdBy)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex items-center">
+                        <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                        {formatDate(session.createdOn)}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,12 +3,34 @@
 import { useState, useCallback } from "react";
 import { AlertCircle, X } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { Timestamp } from "firebase/firestore";
 import {
+  ExcelSheetInfo,
   FileProcessingService,
+  MAX_STREAMING_FILE_SIZE,
   ParsedFileData,
+  ProcessingOptions,
 } from "../../lib/file-processing";
-import { FieldDetectionResult } from "../../lib/field-mapping";
+import { CsvFormat } from "../../lib/csv-format";
+import {
+  FieldDetectionResult,
+  FieldMappingService,
+} from "../../lib/field-mapping";
+import {
+  ContactImportService,
+  ImportPlan,
+  ImportResults,
+} from "../../lib/contact-import";
+import { ImportWorkerClient } from "../../lib/import-worker";
+import {
+  fieldSynonymService,
+  importSessionService,
+} from "../../lib/collections";
+import { authService } from "../../lib/auth";
+import { ImportSession } from "../../types/firestore";
 import { FileUpload } from "./FileUpload";
+import SheetSelectionStep from "./SheetSelectionStep";
+import HeaderRowStep from "./HeaderRowStep";
 import AIColumnDetectionStep from "./AIColumnDetectionStep";
 import FieldMappingStep from "./FieldMappingStep";
 import SmartFieldMappingStep from "./SmartFieldMappingStep";
@@ -24,6 +46,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import Stepper, { StepperStep } from "@/components/ui/stepper";
 import Image from "next/image";
 
+// Rows parsed up front for column detection and mapping
+const PREVIEW_ROWS = 1000;
+
 interface ImportModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -32,6 +57,8 @@ interface ImportModalProps {
 
 type ImportStepType =
   | "upload"
+  | "sheets"
+  | "header"
   | "detection"
   | "mapping"
   | "smart_mapping"
@@ -40,14 +67,17 @@ type ImportStepType =
 
 interface ImportState {
   step: ImportStepType;
+  file: File | null;
+  sheets: ExcelSheetInfo[];
+  selectedSheets: string[];
   fileData: ParsedFileData | null;
+  detectedHeaderRow: number;
   fieldMappings: FieldDetectionResult[];
-  importResults: {
-    imported: number;
-    merged: number;
-    errors: number;
-    errorDetails: string[];
-  } | null;
+  // Mappings as detected, to learn from the ones the user corrected
+  suggestedMappings: FieldDetectionResult[];
+  importPlan: ImportPlan | null;
+  importResults: ImportResults | null;
+  session: { id: string; status: ImportSession["status"] } | null;
   error: string | null;
 }
 
@@ -58,28 +88,181 @@ export default function ImportModal({
 }: ImportModalProps) {
   const [state, setState] = useState<ImportState>({
     step: "upload",
+    file: null,
+    sheets: [],
+    selectedSheets: [],
     fileData: null,
+    detectedHeaderRow: 0,
     fieldMappings: [],
+    suggestedMappings: [],
+    importPlan: null,
     importResults: null,
+    session: null,
     error: null,
   });
   const [isMoveToContactsDisabled, setIsMoveToContactsDisabled] =
     useState(true);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
 
   const resetModal = useCallback(() => {
     setState({
       step: "upload",
+      file: null,
+      sheets: [],
+      selectedSheets: [],
       fileData: null,
+      detectedHeaderRow: 0,
       fieldMappings: [],
+      suggestedMappings: [],
+      importPlan: null,
       importResults: null,
+      session: null,
       error: null,
     });
   }, []);
 
+  // Session writes are for auditing only and never block the import itself
+  const createSession = useCallback(
+    async (
+      session: Omit<ImportSession, "id" | "createdOn" | "createdBy">
+    ): Promise<string | null> => {
+      try {
+        return await importSessionService.createSession({
+          ...session,
+          createdBy: authService.getCurrentUser()?.uid || "anonymous",
+        });
+      } catch (error) {
+        console.error("Failed to create import session:", error);
+        return null;
+      }
+    },
+    []
+  );
+
+  const updateSession = useCallback(
+    async (sessionId: string, session: Partial<ImportSession>) => {
+      try {
+        await importSessionService.updateSession(sessionId, session);
+      } catch (error) {
+        console.error("Failed to update import session:", error);
+      }
+    },
+    []
+  );
+
   const handleClose = useCallback(() => {
+    // Contacts are being written, so the session and the wizard stay open
+    // until the commit settles
+    if (isCommitting) return;
+
+    const isImportComplete = state.step === "summary";
+    if (state.session?.status === "pending") {
+      updateSession(state.session.id, { status: "cancelled" });
+    }
     resetModal();
-    onClose();
-  }, [resetModal, onClose]);
+    if (isImportComplete) {
+      onSuccess();
+    } else {
+      onClose();
+    }
+  }, [
+    resetModal,
+    onClose,
+    onSuccess,
+    updateSession,
+    isCommitting,
+    state.step,
+    state.session,
+  ]);
+
+  const recordFailedUpload = useCallback(
+    async (file: File, error: unknown) => {
+      await createSession({
+        fileName: file.name,
+        fileSize: file.size,
+        totalRows: 0,
+        mappedFields: {},
+        status: "failed",
+        results: {
+          imported: 0,
+          merged: 0,
+          errors: 1,
+          errorDetails: [
+            {
+              row: 0,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to process file",
+              data: {},
+            },
+          ],
+        },
+      });
+    },
+    [createSession]
+  );
+
+  // Parse the file (or the chosen worksheets), open a pending session and
+  // move on to column detection
+  const parseFile = async (
+    file: File,
+    overrides: Pick<
+      ProcessingOptions,
+      "sheetNames" | "headerRow" | "csvFormat"
+    > = {}
+  ): Promise<ParsedFileData> => {
+    const worker = new ImportWorkerClient();
+    try {
+      // Streamable files are only previewed here; the processing step reads
+      // the rest of the file in chunks
+      return await worker.parseFile(file, {
+        maxRows: FileProcessingService.isStreamable(file.name)
+          ? PREVIEW_ROWS
+          : undefined,
+        skipEmptyRows: true,
+        trimWhitespace: true,
+        ...overrides,
+      });
+    } finally {
+      worker.terminate();
+    }
+  };
+
+  const loadFile = async (file: File, sheetNames?: string[]) => {
+    console.log("File validation passed, starting file parsing...");
+    let fileData: ParsedFileData;
+    try {
+      fileData = await parseFile(file, { sheetNames });
+    } catch (parseError) {
+      await recordFailedUpload(file, parseError);
+      throw parseError;
+    }
+    console.log("File parsing completed successfully:", fileData);
+
+    const sessionId = await createSession({
+      fileName: fileData.fileName,
+      fileSize: fileData.fileSize,
+      totalRows: fileData.totalRows,
+      mappedFields: {},
+      status: "pending",
+      results: { imported: 0, merged: 0, errors: 0 },
+    });
+
+    // vCard and JSON columns come from property names, so there is no
+    // header row to choose
+    console.log("Updating state to header step...");
+    setState((prev) => ({
+      ...prev,
+      step: fileData.topRows ? "header" : "detection",
+      file,
+      fileData,
+      detectedHeaderRow: fileData.headerRowIndex || 0,
+      session: sessionId ? { id: sessionId, status: "pending" } : null,
+    }));
+    console.log("State updated successfully");
+  };
 
   const handleFileUpload = async (file: File) => {
     console.log("handleFileUpload called with file:", file);
@@ -100,23 +283,98 @@ export default function ImportModal({
         return;
       }
 
-      console.log("File validation passed, starting file parsing...");
-      const fileData = await FileProcessingService.parseFile(file, {
-        maxRows: 1000,
-        skipEmptyRows: true,
-        trimWhitespace: true,
-      });
-      console.log("File parsing completed successfully:", fileData);
+      if (state.session?.status === "pending") {
+        updateSession(state.session.id, { status: "cancelled" });
+      }
+
+      // Workbooks with several sheets ask which sheets to import first
+      if (FileProcessingService.getFileType(file.name) === "xlsx") {
+        let sheets: ExcelSheetInfo[];
+        const worker = new ImportWorkerClient();
+        try {
+          sheets = await worker.listExcelSheets(file);
+        } catch (listError) {
+          await recordFailedUpload(file, listError);
+          throw listError;
+        } finally {
+          worker.terminate();
+        }
+
+        if (sheets.length > 1) {
+          setState((prev) => ({
+            ...prev,
+            step: "sheets",
+            file,
+            sheets,
+            selectedSheets: [sheets[0].name],
+            session: null,
+          }));
+          return;
+        }
+      }
 
-      console.log("Updating state to detection step...");
+      await loadFile(file);
+    } catch (error) {
+      console.error("Error in handleFileUpload:", error);
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error ? error.message : "Failed to process file",
+      }));
+    }
+  };
+
+  // Re-read the file after the user changed how it should be read
+  const rereadFile = async (
+    overrides: Pick<ProcessingOptions, "headerRow" | "csvFormat">
+  ) => {
+    if (!state.file) return;
+
+    setIsParsing(true);
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+      const fileData = await parseFile(state.file, {
+        sheetNames: state.sheets.length > 1 ? state.selectedSheets : undefined,
+        ...overrides,
+      });
+      if (state.session) {
+        updateSession(state.session.id, { totalRows: fileData.totalRows });
+      }
       setState((prev) => ({
         ...prev,
-        step: "detection",
         fileData,
+        detectedHeaderRow:
+          overrides.headerRow === undefined
+            ? fileData.headerRowIndex || 0
+            : prev.detectedHeaderRow,
       }));
-      console.log("State updated successfully");
     } catch (error) {
-      console.error("Error in handleFileUpload:", error);
+      console.error("Error re-reading file:", error);
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error ? error.message : "Failed to process file",
+      }));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleHeaderRowChange = (headerRow: number) =>
+    rereadFile({ headerRow, csvFormat: state.fileData?.csvFormat });
+
+  // A different format changes the rows, so the header row is detected again
+  const handleCsvFormatChange = (csvFormat: Partial<CsvFormat>) =>
+    rereadFile({ csvFormat: { ...state.fileData?.csvFormat, ...csvFormat } });
+
+  const handleSheetsSelected = async () => {
+    if (!state.file || state.selectedSheets.length === 0) return;
+
+    try {
+      setState((prev) => ({ ...prev, error: null }));
+      await loadFile(state.file, state.selectedSheets);
+    } catch (error) {
+      console.error("Error loading worksheets:", error);
       setState((prev) => ({
         ...prev,
         error:
@@ -131,6 +389,7 @@ export default function ImportModal({
       ...prev,
       step: "mapping",
       fieldMappings: mappings,
+      suggestedMappings: mappings,
     }));
     console.log("State updated to mapping step");
   };
@@ -143,11 +402,46 @@ export default function ImportModal({
     }));
   };
 
+  // Learn from the final choice for each corrected column once the mapping
+  // is confirmed, so fields clicked through on the way aren't recorded
+  const recordCorrections = (mappings: FieldDetectionResult[]) => {
+    mappings.forEach(({ columnIndex, columnName, suggestedField }) => {
+      const suggested = state.suggestedMappings.find(
+        (mapping) => mapping.columnIndex === columnIndex
+      );
+      if (
+        !suggested ||
+        !suggestedField ||
+        suggestedField === suggested.suggestedField ||
+        suggestedField === "new_custom_field"
+      ) {
+        return;
+      }
+      fieldSynonymService
+        .recordCorrection(
+          FieldMappingService.normalizeHeader(columnName),
+          suggestedField
+        )
+        .catch((error) =>
+          console.error("Failed to record mapping correction:", error)
+        );
+    });
+  };
+
   const handleSmartMappingComplete = (mappings: FieldDetectionResult[]) => {
+    recordCorrections(mappings);
+    if (state.session) {
+      updateSession(state.session.id, {
+        mappedFields: ContactImportService.getMappedFields(mappings),
+      });
+    }
     setState((prev) => ({
       ...prev,
       step: "processing",
       fieldMappings: mappings,
+      // Coming back to confirm again only records the changes made since
+      suggestedMappings: mappings,
+      importPlan: null,
     }));
   };
 
@@ -168,10 +462,116 @@ export default function ImportModal({
     }));
   };
 
-  const handleMoveToContacts = useCallback(() => {
-    setState((prev) => ({ ...prev, step: "summary" }));
-    onSuccess();
-  }, [onSuccess]);
+  const handlePlanReady = useCallback(
+    (plan: ImportPlan) => {
+      // A streamed file's row count is only known once it has been read
+      if (state.session && state.fileData?.truncated) {
+        updateSession(state.session.id, { totalRows: plan.totalRows });
+      }
+      setState((prev) => ({
+        ...prev,
+        importPlan: plan,
+      }));
+    },
+    [state.session, state.fileData, updateSession]
+  );
+
+  const handleMoveToContacts = useCallback(async () => {
+    if (!state.importPlan || !state.fileData) return;
+
+    const sessionId = state.session?.id;
+    setIsCommitting(true);
+    try {
+      if (sessionId) {
+        await updateSession(sessionId, { status: "processing" });
+      }
+
+      await ContactImportService.createCustomFields(state.importPlan.newFields);
+      const commit = await ContactImportService.startCommit();
+      const duplicateIndex = await ContactImportService.buildDuplicateIndex();
+
+      // The rows are read from the file again and written chunk by chunk,
+      // so the whole file is never held in memory
+      const worker = new ImportWorkerClient();
+      try {
+        await worker.validateRows(
+          state.fileData,
+          state.importPlan.mappings,
+          state.importPlan.fields,
+          state.file || undefined,
+          {
+            onRows: (rows) =>
+              ContactImportService.commitRows(
+                commit,
+                rows.map((row) =>
+                  ContactImportService.planRow(row, duplicateIndex)
+                )
+              ),
+          }
+        ).result;
+      } finally {
+        worker.terminate();
+      }
+      const importResults = ContactImportService.finishCommit(commit);
+
+      // The contacts are saved by now, so a session that can't be completed
+      // doesn't fail the import, but the user must know it can't be reverted
+      let sessionError: string | null = null;
+      if (sessionId) {
+        try {
+          await ContactImportService.completeSession(sessionId, importResults);
+        } catch (error) {
+          console.error("Failed to complete import session:", error);
+          sessionError =
+            "Contacts were imported, but the import record could not be saved, so this import can't be reverted from Import History.";
+        }
+      }
+
+      setState((prev) => ({
+        ...prev,
+        step: "summary",
+        importResults,
+        error: sessionError,
+        session: sessionId
+          ? {
+              id: sessionId,
+              status: sessionError ? "processing" : "completed",
+            }
+          : null,
+      }));
+    } catch (error) {
+      console.error("Error committing import:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to import contacts";
+
+      if (sessionId) {
+        await updateSession(sessionId, {
+          status: "failed",
+          results: {
+            imported: 0,
+            merged: 0,
+            errors: state.importPlan.totalRows,
+            errorDetails: [{ row: 0, error: message, data: {} }],
+          },
+          completedOn: Timestamp.now(),
+        });
+      }
+
+      setState((prev) => ({
+        ...prev,
+        error: message,
+        session: sessionId ? { id: sessionId, status: "failed" } : null,
+      }));
+    } finally {
+      setIsCommitting(false);
+    }
+  }, [
+    state.importPlan,
+    state.fileData,
+    state.file,
+    state.session,
+    updateSession,
+  ]);
 
   const getStepperSteps = (): StepperStep[] => {
     const stepIds = ["detection", "smart_mapping", "processing"];
@@ -181,6 +581,8 @@ export default function ImportModal({
     ): "complete" | "current" | "pending" => {
       switch (state.step) {
         case "upload":
+        case "sheets":
+        case "header":
         case "detection":
           return stepId === "detection" ? "current" : "pending";
         case "mapping":
@@ -233,6 +635,8 @@ export default function ImportModal({
   const getStepTitle = () => {
     const stepTitles = {
       upload: "Move Entry to Contact Section",
+      sheets: "Choose Worksheets",
+      header: "Preview File",
       detection: "Detect Contact Fields",
       mapping: "Column Detection Results",
       smart_mapping: "Map Fields",
@@ -247,7 +651,8 @@ export default function ImportModal({
       <DialogContent className="max-w-4xl max-h-[90vh] rounded-[12px] overflow-hidden flex flex-col p-1 bg-[#FDFDFD] border-0 shadow-none">
         <DialogTitle className="sr-only">{getStepTitle()}</DialogTitle>
         <DialogDescription className="sr-only">
-          Import contacts from CSV or Excel files with smart field mapping
+          Import contacts from CSV, Excel, vCard or JSON files with smart field
+          mapping
         </DialogDescription>
         <div className="w-full h-full rounded-[8px] border border-black/10 bg-[#FDFDFD] flex flex-col overflow-hidden">
           <div className="flex items-center justify-between px-6 py-4 bg-white border-b border-gray-200 ">
@@ -272,7 +677,8 @@ export default function ImportModal({
             </div>
             <button
               onClick={handleClose}
-              className="flex items-center justify-center w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-[8px] transition-colors"
+              disabled={isCommitting}
+              className="flex items-center justify-center w-8 h-8 bg-gray-100 hover:bg-gray-200 rounded-[8px] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <X className="w-4 h-4 text-gray-600" />
             </button>
@@ -316,8 +722,36 @@ export default function ImportModal({
                         onFileUpload={handleFileUpload}
                         error={state.error}
                         maxFiles={5}
-                        maxSize={10 * 1024 * 1024}
-                        acceptedTypes={[".csv", ".xlsx", ".xls"]}
+                        maxSize={MAX_STREAMING_FILE_SIZE}
+                        acceptedTypes={[
+                          ".csv",
+                          ".xlsx",
+                          ".xls",
+                          ".vcf",
+                          ".json",
+                          ".ndjson",
+                          ".jsonl",
+                        ]}
+                      />
+                    )}
+
+                    {state.step === "sheets" && (
+                      <SheetSelectionStep
+                        sheets={state.sheets}
+                        selectedSheets={state.selectedSheets}
+                        onSelectionChange={(selectedSheets) =>
+                          setState((prev) => ({ ...prev, selectedSheets }))
+                        }
+                      />
+                    )}
+
+                    {state.step === "header" && state.fileData && (
+                      <HeaderRowStep
+                        fileData={state.fileData}
+                        detectedHeaderRow={state.detectedHeaderRow}
+                        isLoading={isParsing}
+                        onHeaderRowChange={handleHeaderRowChange}
+                        onCsvFormatChange={handleCsvFormatChange}
                       />
                     )}
 
@@ -339,15 +773,19 @@ export default function ImportModal({
                       <SmartFieldMappingStep
                         initialMappings={state.fieldMappings}
                         onMappingsChange={handleFieldMappingsChange}
+                        sampleRows={state.fileData.rows.slice(0, 5)}
+                        previewRows={state.fileData.rows}
                       />
                     )}
 
                     {state.step === "processing" && state.fileData && (
                       <ImportProcessingStep
                         fileData={state.fileData}
+                        file={state.file || undefined}
                         fieldMappings={state.fieldMappings}
                         onError={handleProcessingError}
                         onDisabledStateChange={setIsMoveToContactsDisabled}
+                        onPlanReady={handlePlanReady}
                       />
                     )}
 
@@ -363,17 +801,28 @@ export default function ImportModal({
           <div className="flex items-center justify-between px-6 py-4 bg-white border-t border-gray-200">
             <button
               onClick={handleClose}
-              className="inline-flex items-center px-6 py-3 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              disabled={isCommitting}
+              className="inline-flex items-center px-6 py-3 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Cancel
+              {state.step === "summary" ? "Close" : "Cancel"}
             </button>
 
             <div className="flex items-center space-x-4">
               {state.step !== "upload" && state.step !== "summary" && (
                 <button
                   onClick={() => {
-                    if (state.step === "detection") {
+                    if (state.step === "sheets") {
                       setState((prev) => ({ ...prev, step: "upload" }));
+                    } else if (state.step === "header") {
+                      setState((prev) => ({
+                        ...prev,
+                        step: prev.sheets.length > 1 ? "sheets" : "upload",
+                      }));
+                    } else if (state.step === "detection") {
+                      setState((prev) => ({
+                        ...prev,
+                        step: prev.fileData?.topRows ? "header" : "upload",
+                      }));
                     } else if (state.step === "mapping") {
                       setState((prev) => ({ ...prev, step: "detection" }));
                     } else if (state.step === "smart_mapping") {
@@ -382,7 +831,8 @@ export default function ImportModal({
                       setState((prev) => ({ ...prev, step: "smart_mapping" }));
                     }
                   }}
-                  className="inline-flex items-center px-6 py-3 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  disabled={isCommitting}
+                  className="inline-flex items-center px-6 py-3 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <svg
                     className="w-4 h-4 mr-2"
@@ -405,6 +855,10 @@ export default function ImportModal({
                 <button
                   onClick={() => {
                     if (state.step === "upload") {
+                    } else if (state.step === "sheets") {
+                      handleSheetsSelected();
+                    } else if (state.step === "header") {
+                      setState((prev) => ({ ...prev, step: "detection" }));
                     } else if (state.step === "detection") {
                     } else if (state.step === "mapping") {
                       handleFieldMappingComplete(state.fieldMappings);
@@ -417,6 +871,9 @@ export default function ImportModal({
                   }}
                   disabled={
                     state.step === "upload" ||
+                    (state.step === "sheets" &&
+                      state.selectedSheets.length === 0) ||
+                    (state.step === "header" && isParsing) ||
                     state.step === "detection" ||
                     (state.step === "mapping" &&
                       !state.fieldMappings.some(
@@ -430,11 +887,18 @@ export default function ImportModal({
                           m.suggestedField &&
                           m.suggestedField !== "new_custom_field"
                       )) ||
-                    (state.step === "processing" && isMoveToContactsDisabled)
+                    (state.step === "processing" &&
+                      (isMoveToContactsDisabled ||
+                        !state.importPlan ||
+                        isCommitting))
                   }
                   className="inline-flex items-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-[#0E4259] hover:bg-[#0a3447] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0E4259] disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {state.step === "processing" ? "Move to Contacts" : "Next"}
+                  {state.step === "processing"
+                    ? isCommitting
+                      ? "Moving to Contacts..."
+                      : "Move to Contacts"
+                    : "Next"}
                   <svg
                     className="w-4 h-4 ml-2"
                     fill="none"
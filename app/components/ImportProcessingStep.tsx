@@ -1,43 +1,70 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import { motion } from "framer-motion";
-import { ParsedFileData } from "../../lib/file-processing";
+import {
+  FileProcessingService,
+  ParsedFileData,
+} from "../../lib/file-processing";
 import { FieldDetectionResult } from "../../lib/field-mapping";
-import { contactService } from "../../lib/collections";
-import { Contact } from "../../types/firestore";
+import { ContactImportService, ImportPlan } from "../../lib/contact-import";
+import { ImportWorkerClient } from "../../lib/import-worker";
 import GridBackground from "../../components/ui/grid-background";
 import Image from "next/image";
 
+// Entries kept for the error and warning lists. A large file can have
+// thousands; only the count of the rest is kept.
+const MAX_LISTED_DETAILS = 100;
+
 interface ImportProcessingStepProps {
   fileData?: ParsedFileData;
+  // Source file, streamed when fileData only holds a preview
+  file?: File;
   fieldMappings?: FieldDetectionResult[];
   onError?: (error: string) => void;
   onDisabledStateChange?: (disabled: boolean) => void;
+  onPlanReady?: (plan: ImportPlan) => void;
 }
 
 interface ProcessingResults {
   imported: number;
   merged: number;
   errors: number;
+  // Rows with warnings
+  warnings: number;
   errorDetails: string[];
+  warningDetails: string[];
 }
 
 export default function ImportProcessingStep({
   fileData,
+  file,
   fieldMappings = [],
   onError,
   onDisabledStateChange,
+  onPlanReady,
 }: ImportProcessingStepProps) {
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState<string>("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [canCancel, setCanCancel] = useState(false);
+  const workerRef = useRef<ImportWorkerClient | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
   const [results, setResults] = useState<ProcessingResults>({
     imported: 0,
     merged: 0,
     errors: 0,
+    warnings: 0,
     errorDetails: [],
+    warningDetails: [],
   });
 
   const processingSteps = useMemo(
@@ -59,138 +86,16 @@ export default function ImportProcessingStep({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fileData, fieldMappings]);
 
+  // Stop the worker if the modal closes mid-check
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
   useEffect(() => {
     const isDisabled = isProcessing || !isComplete || results.errors > 0;
     onDisabledStateChange?.(isDisabled);
   }, [isProcessing, isComplete, results.errors, onDisabledStateChange]);
 
-  const validateEmail = useCallback((email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  }, []);
-
-  const validatePhone = useCallback((phone: string): boolean => {
-    const cleanPhone = phone.replace(/\D/g, "");
-    return cleanPhone.length >= 10;
-  }, []);
-
-  const normalizePhone = useCallback((phone: string): string => {
-    return phone.replace(/\D/g, "");
-  }, []);
-
-  const normalizeEmail = useCallback((email: string): string => {
-    return email.toLowerCase().trim();
-  }, []);
-
-  const checkForDuplicates = useCallback(
-    async (
-      contactData: Record<string, string>
-    ): Promise<{
-      isDuplicate: boolean;
-      existingContact?: Contact;
-      confidence: number;
-    }> => {
-      try {
-        const email = contactData.email
-          ? normalizeEmail(contactData.email)
-          : "";
-        const phone = contactData.phone
-          ? normalizePhone(contactData.phone)
-          : "";
-        const firstName = contactData.firstName?.toLowerCase().trim() || "";
-        const lastName = contactData.lastName?.toLowerCase().trim() || "";
-
-        if (email) {
-          const emailQuery = await contactService.searchContacts(email);
-          const emailMatch = emailQuery.find(
-            (c) => normalizeEmail(c.email) === email
-          );
-          if (emailMatch) {
-            return {
-              isDuplicate: true,
-              existingContact: emailMatch,
-              confidence: 100,
-            };
-          }
-        }
-
-        if (phone) {
-          const phoneQuery = await contactService.searchContacts(phone);
-          const phoneMatch = phoneQuery.find(
-            (c) => normalizePhone(c.phone) === phone
-          );
-          if (phoneMatch) {
-            return {
-              isDuplicate: true,
-              existingContact: phoneMatch,
-              confidence: 95,
-            };
-          }
-        }
-
-        if (firstName && lastName) {
-          const nameQuery = await contactService.searchContacts(
-            `${firstName} ${lastName}`
-          );
-          const nameMatch = nameQuery.find(
-            (c) =>
-              c.firstName?.toLowerCase().trim() === firstName &&
-              c.lastName?.toLowerCase().trim() === lastName
-          );
-          if (nameMatch) {
-            return {
-              isDuplicate: true,
-              existingContact: nameMatch,
-              confidence: 70,
-            };
-          }
-        }
-
-        return {
-          isDuplicate: false,
-          confidence: 0,
-        };
-      } catch (error) {
-        console.error("Error checking duplicates:", error);
-        return {
-          isDuplicate: false,
-          confidence: 0,
-        };
-      }
-    },
-    [normalizeEmail, normalizePhone]
-  );
-
-  const validateContactData = useCallback(
-    (contactData: Record<string, string>): string[] => {
-      const errors: string[] = [];
-
-      if (!contactData.firstName?.trim()) {
-        errors.push("First name is required");
-      }
-      if (!contactData.lastName?.trim()) {
-        errors.push("Last name is required");
-      }
-      if (!contactData.email?.trim()) {
-        errors.push("Email is required");
-      }
-      if (!contactData.phone?.trim()) {
-        errors.push("Phone is required");
-      }
-
-      if (contactData.email && !validateEmail(contactData.email)) {
-        errors.push("Invalid email format");
-      }
-
-      if (contactData.phone && !validatePhone(contactData.phone)) {
-        errors.push("Invalid phone format");
-      }
-
-      return errors;
-    },
-    [validateEmail, validatePhone]
-  );
-
   const startProcessing = useCallback(async () => {
     if (!fileData || !fieldMappings.length) {
       onError?.("Missing file data or field mappings");
@@ -198,21 +103,30 @@ export default function ImportProcessingStep({
     }
 
     setIsProcessing(true);
+    setIsCancelled(false);
     const results: ProcessingResults = {
       imported: 0,
       merged: 0,
       errors: 0,
+      warnings: 0,
       errorDetails: [],
+      warningDetails: [],
     };
+    const worker = new ImportWorkerClient();
+    workerRef.current = worker;
 
     try {
       setCurrentStep(processingSteps[0]);
       setProgress(10);
+      // Columns for new custom fields are read into the field names they
+      // will be created under on commit
+      const { mappings, newFields, fields } =
+        await ContactImportService.planCustomFields(fieldMappings);
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
       setCurrentStep(processingSteps[1]);
       setProgress(25);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      const duplicateIndex = await ContactImportService.buildDuplicateIndex();
 
       setCurrentStep(processingSteps[2]);
       setProgress(40);
@@ -224,52 +138,64 @@ export default function ImportProcessingStep({
 
       setCurrentStep(processingSteps[4]);
       setProgress(70);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const totalRows = fileData.rows.length;
-      let processedRows = 0;
 
-      for (let i = 0; i < totalRows; i++) {
-        const row = fileData.rows[i];
-
-        const contactData: Record<string, string> = {};
-
-        fieldMappings.forEach((mapping) => {
-          if (
-            mapping.suggestedField &&
-            mapping.suggestedField !== "new_custom_field"
-          ) {
-            const columnIndex = fileData.headers.indexOf(mapping.columnName);
-            if (columnIndex >= 0 && row[columnIndex]) {
-              contactData[mapping.suggestedField] = row[columnIndex].trim();
+      // The worker maps and validates rows; duplicates are matched here
+      // against the index loaded above. Only counts are kept, since the rows
+      // are read again on commit.
+      const task = worker.validateRows(fileData, mappings, fields, file, {
+        onRows: (rows) => {
+          rows.forEach((result) => {
+            const { row, errors, warnings } = result;
+            const { action } = ContactImportService.planRow(
+              result,
+              duplicateIndex
+            );
+            if (action === "error") {
+              results.errors++;
+              if (results.errorDetails.length < MAX_LISTED_DETAILS) {
+                results.errorDetails.push(`Row ${row}: ${errors.join(", ")}`);
+              }
+              return;
+            }
+            if (warnings.length > 0) {
+              results.warnings++;
+              if (results.warningDetails.length < MAX_LISTED_DETAILS) {
+                results.warningDetails.push(
+                  `Row ${row}: ${warnings.join(", ")}`
+                );
+              }
             }
+            if (action === "merge") {
+              results.merged++;
+            } else {
+              results.imported++;
+            }
+          });
+        },
+        onProgress: (validationProgress) => {
+          if (validationProgress.totalBytes) {
+            setCurrentStep(
+              `${
+                processingSteps[4]
+              } ${validationProgress.rowsProcessed.toLocaleString()} rows (${FileProcessingService.formatFileSize(
+                validationProgress.bytesProcessed || 0
+              )} of ${FileProcessingService.formatFileSize(
+                validationProgress.totalBytes
+              )})`
+            );
           }
-        });
-
-        const validationErrors = validateContactData(contactData);
-        if (validationErrors.length > 0) {
-          results.errors++;
-          results.errorDetails.push(
-            `Row ${i + 2}: ${validationErrors.join(", ")}`
-          );
-          processedRows++;
-          continue;
-        }
-
-        const duplicateCheck = await checkForDuplicates(contactData);
-
-        if (duplicateCheck.isDuplicate) {
-          results.merged++;
-        } else {
-          results.imported++;
-        }
-
-        processedRows++;
-
-        const stepProgress = 70 + (processedRows / totalRows) * 25;
-        setProgress(stepProgress);
-
-        await new Promise((resolve) => setTimeout(resolve, 100));
+          setProgress(70 + validationProgress.fraction * 25);
+        },
+      });
+      cancelRef.current = task.cancel;
+      setCanCancel(true);
+
+      const { totalRows, cancelled } = await task.result;
+      if (cancelled) {
+        setIsProcessing(false);
+        setIsCancelled(true);
+        setProgress(0);
+        return;
       }
 
       setCurrentStep(processingSteps[5]);
@@ -278,6 +204,7 @@ export default function ImportProcessingStep({
 
       setProgress(100);
       setResults(results);
+      onPlanReady?.({ mappings, fields, newFields, totalRows });
       setIsProcessing(false);
       setIsComplete(true);
     } catch (error) {
@@ -286,15 +213,17 @@ export default function ImportProcessingStep({
       onError?.(
         error instanceof Error ? error.message : "Failed to process contacts"
       );
+    } finally {
+      worker.terminate();
+      workerRef.current = null;
+      cancelRef.current = null;
+      setCanCancel(false);
     }
-  }, [
-    fileData,
-    fieldMappings,
-    onError,
-    checkForDuplicates,
-    processingSteps,
-    validateContactData,
-  ]);
+  }, [file, fileData, fieldMappings, onError, onPlanReady, processingSteps]);
+
+  const handleCancel = useCallback(() => {
+    cancelRef.current?.();
+  }, []);
 
   return (
     <div className="bg-white min-h-[400px] space-y-4 p-4">
@@ -355,6 +284,8 @@ export default function ImportProcessingStep({
               ? "Running Final Checks..."
               : isComplete
               ? "Final Checks Complete"
+              : isCancelled
+              ? "Final Checks Cancelled"
               : "Processing..."}
           </h3>
           <p className="text-xs text-[#7782AD] leading-relaxed whitespace-nowrap">
@@ -365,11 +296,31 @@ export default function ImportProcessingStep({
               ? results.errors === 0
                 ? "All checks passed successfully. Ready to import contacts."
                 : "Please review and fix the errors before proceeding."
+              : isCancelled
+              ? "Checks were stopped before every row was checked."
               : "Processing contacts..."}
           </p>
         </motion.div>
 
-        {!isComplete && (
+        {canCancel && (
+          <button
+            onClick={handleCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel Checks
+          </button>
+        )}
+
+        {isCancelled && (
+          <button
+            onClick={startProcessing}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-[#0E4259] hover:bg-[#0a3447] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#0E4259]"
+          >
+            Run Checks Again
+          </button>
+        )}
+
+        {!isComplete && !isCancelled && (
           <div className="flex justify-center">
             <div
               className="bg-[#EEF4FF] rounded-full"
@@ -442,6 +393,29 @@ export default function ImportProcessingStep({
                   {results.errorDetails.map((error, index) => (
                     <p key={index}>• {error}</p>
                   ))}
+                  {results.errors > results.errorDetails.length && (
+                    <p className="font-medium">
+                      +{results.errors - results.errorDetails.length} more
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {results.warnings > 0 && (
+              <div className="mt-4 bg-[#FFF7EA] border-0 rounded-lg p-4">
+                <h5 className="text-sm font-semibold text-[#B67C0C] mb-2">
+                  Warnings ({results.warnings} rows, imported anyway):
+                </h5>
+                <div className="text-xs text-[#B67C0C] space-y-1 max-h-32 overflow-y-auto">
+                  {results.warningDetails.map((warning, index) => (
+                    <p key={index}>• {warning}</p>
+                  ))}
+                  {results.warnings > results.warningDetails.length && (
+                    <p className="font-medium">
+                      +{results.warnings - results.warningDetails.length} more
+                    </p>
+                  )}
                 </div>
               </div>
             )}
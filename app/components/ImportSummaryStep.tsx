@@ -3,22 +3,26 @@
 import React from "react";
 import { motion } from "framer-motion";
 import { CheckCircle, AlertCircle, Users, RefreshCw } from "lucide-react";
+import { ImportResults } from "../../lib/contact-import";
 
 interface ImportSummaryStepProps {
-  results?: {
-    imported: number;
-    merged: number;
-    errors: number;
-    errorDetails: string[];
-  };
+  results?: ImportResults;
 }
 
+const ROW_STATUS_STYLES = {
+  imported: { label: "Imported", className: "text-green-700 bg-green-50" },
+  merged: { label: "Merged", className: "text-blue-700 bg-blue-50" },
+  error: { label: "Error", className: "text-red-700 bg-red-50" },
+};
+
 export default function ImportSummaryStep({ results }: ImportSummaryStepProps) {
-  const defaultResults = {
+  const defaultResults: ImportResults = {
     imported: 0,
     merged: 0,
     errors: 0,
     errorDetails: [],
+    rowResults: [],
+    mergeSnapshots: [],
   };
 
   const finalResults = results || defaultResults;
@@ -128,6 +132,43 @@ export default function ImportSummaryStep({ results }: ImportSummaryStepProps) {
           </motion.div>
         )}
 
+        {finalResults.rowResults.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.7 }}
+            className="bg-white border border-gray-200 rounded-lg p-6 mb-8 text-left"
+          >
+            <h4 className="text-lg font-semibold text-[#0E4259] mb-4">
+              Row Outcomes
+            </h4>
+            <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+              {finalResults.rowResults.map((rowResult) => (
+                <div
+                  key={rowResult.row}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <span className="text-gray-700">Row {rowResult.row}</span>
+                  <span className="flex items-center gap-2">
+                    {rowResult.error && (
+                      <span className="text-xs text-red-600">
+                        {rowResult.error}
+                      </span>
+                    )}
+                    <span
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        ROW_STATUS_STYLES[rowResult.status].className
+                      }`}
+                    >
+                      {ROW_STATUS_STYLES[rowResult.status].label}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -0,0 +1,135 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { FileSpreadsheet } from "lucide-react";
+import {
+  ExcelSheetInfo,
+  FileProcessingService,
+  SHEET_COLUMN,
+} from "../../lib/file-processing";
+
+interface SheetSelectionStepProps {
+  sheets: ExcelSheetInfo[];
+  selectedSheets: string[];
+  onSelectionChange: (sheetNames: string[]) => void;
+}
+
+export default function SheetSelectionStep({
+  sheets,
+  selectedSheets,
+  onSelectionChange,
+}: SheetSelectionStepProps) {
+  // Sheets can only be combined with sheets that have the same columns
+  const firstSelected = sheets.find((sheet) =>
+    selectedSheets.includes(sheet.name)
+  );
+  const isCompatible = (sheet: ExcelSheetInfo) =>
+    !firstSelected ||
+    FileProcessingService.areHeadersCompatible(
+      firstSelected.headers,
+      sheet.headers
+    );
+
+  const toggleSheet = (sheet: ExcelSheetInfo) => {
+    if (selectedSheets.includes(sheet.name)) {
+      onSelectionChange(selectedSheets.filter((name) => name !== sheet.name));
+    } else if (isCompatible(sheet)) {
+      // Keep the workbook's sheet order
+      onSelectionChange(
+        sheets
+          .map(({ name }) => name)
+          .filter(
+            (name) => name === sheet.name || selectedSheets.includes(name)
+          )
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-[500px] max-w-full overflow-hidden">
+      <div className="flex-shrink-0 p-4 pb-0">
+        <div className="rounded-lg p-2">
+          <h2 className="text-[18px] font-semibold text-[#0E4259] mb-3 leading-[100%] tracking-[0%]">
+            Choose Worksheets
+          </h2>
+          <p className="text-[#68818C] text-[17px] font-normal mb-2 leading-[120%] tracking-[0%]">
+            This workbook has {sheets.length} sheets. Pick the sheet to import,
+            or several sheets with the same columns to import them together.
+          </p>
+          {selectedSheets.length > 1 && (
+            <p className="text-[13px] text-[#556B75]">
+              Rows from the selected sheets are combined, with a &quot;
+              {SHEET_COLUMN}&quot; column showing which sheet each row came
+              from.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-6">
+        <div className="space-y-3">
+          {sheets.map((sheet, index) => {
+            const isSelected = selectedSheets.includes(sheet.name);
+            const isDisabled = !isSelected && !isCompatible(sheet);
+
+            return (
+              <motion.label
+                key={sheet.name}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className={`bg-white border rounded-[16px] p-[20px_16px] w-full max-w-4xl flex items-center gap-6 ${
+                  isSelected ? "border-[#1970F3]" : "border-[#EEEEEE]"
+                } ${
+                  isDisabled
+                    ? "opacity-50 cursor-not-allowed"
+                    : "cursor-pointer"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  disabled={isDisabled}
+                  onChange={() => toggleSheet(sheet)}
+                  className="h-4 w-4 text-[#1970F3] border-gray-300 rounded"
+                />
+                <FileSpreadsheet className="w-5 h-5 text-[#0E4259] flex-shrink-0" />
+                <div className="flex flex-col gap-2 flex-1 min-w-0">
+                  <div className="flex items-center gap-4">
+                    <span className="text-[18px] font-medium text-[#0E4259] leading-[100%]">
+                      {sheet.name}
+                    </span>
+                    <span className="text-[13px] text-[#556B75]">
+                      {sheet.rowCount.toLocaleString()} rows ·{" "}
+                      {sheet.headers.length} columns
+                    </span>
+                    {isDisabled && (
+                      <span className="text-[12px] text-[#8C5E04] bg-[#FFF8DD] px-2 py-0.5 rounded">
+                        Different columns
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 overflow-hidden">
+                    {sheet.headers.slice(0, 6).map((header) => (
+                      <span
+                        key={header}
+                        className="text-[13px] text-[#556B75] bg-[#F4F5F6] px-2 py-1 rounded whitespace-nowrap"
+                      >
+                        {header}
+                      </span>
+                    ))}
+                    {sheet.headers.length > 6 && (
+                      <span className="text-[13px] text-[#556B75]">
+                        +{sheet.headers.length - 6} more
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </motion.label>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,20 +3,79 @@
 import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { ChevronDown } from "lucide-react";
-import { FieldDetectionResult } from "../../lib/field-mapping";
-import { contactFieldService } from "../../lib/collections";
-import { ContactField } from "../../types/firestore";
+import {
+  FieldDetectionResult,
+  FieldMappingService,
+} from "../../lib/field-mapping";
+import {
+  contactFieldService,
+  mappingTemplateService,
+} from "../../lib/collections";
+import { authService } from "../../lib/auth";
+import {
+  NameSplitConfig,
+  NameSplitService,
+  SPLIT_NAME_FIELD,
+} from "../../lib/name-splitting";
+import { ColumnCombineService } from "../../lib/column-combining";
+import { ValueTransformService } from "../../lib/value-transforms";
+import { FileProcessingService } from "../../lib/file-processing";
+import {
+  getDefaultPhoneCountry,
+  PHONE_COUNTRIES,
+  PhoneNormalizationService,
+} from "../../lib/phone-normalization";
+import ValueTransformsEditor from "./ValueTransformsEditor";
+import {
+  ContactField,
+  PhoneFormat,
+  ValueTransform,
+} from "../../types/firestore";
 import Image from "next/image";
 import { Check } from "lucide-react";
 
+const SPLIT_NAME_LABEL = "First & Last Name (split)";
+
+const CUSTOM_FIELD_TYPES: ContactField["type"][] = [
+  "text",
+  "number",
+  "phone",
+  "email",
+  "datetime",
+  "checkbox",
+  "select",
+  "multiselect",
+];
+
+// Optional parts of a split name and where they go by default
+const NAME_SPLIT_PARTS: {
+  key: keyof NameSplitConfig;
+  label: string;
+  defaultLabel: string;
+}[] = [
+  { key: "prefixField", label: "Title", defaultLabel: "Don't import" },
+  {
+    key: "middleField",
+    label: "Middle name",
+    defaultLabel: "Keep with first name",
+  },
+  { key: "suffixField", label: "Suffix", defaultLabel: "Keep with last name" },
+];
+
 interface SmartFieldMappingStepProps {
   initialMappings: FieldDetectionResult[];
   onMappingsChange?: (mappings: FieldDetectionResult[]) => void;
+  // First file rows, for previewing values built from several columns
+  sampleRows?: string[][];
+  // Every parsed row, for suggesting the options of a new select field
+  previewRows?: string[][];
 }
 
 export default function SmartFieldMappingStep({
   initialMappings,
   onMappingsChange,
+  sampleRows = [],
+  previewRows = [],
 }: SmartFieldMappingStepProps) {
   const [mappings, setMappings] =
     useState<FieldDetectionResult[]>(initialMappings);
@@ -25,8 +84,20 @@ export default function SmartFieldMappingStep({
   const [showCustomFieldForm, setShowCustomFieldForm] = useState<number | null>(
     null
   );
+  const [customFieldDraft, setCustomFieldDraft] = useState<{
+    label: string;
+    type: ContactField["type"];
+    // One option per line, for select fields
+    options: string;
+  }>({ label: "", type: "text", options: "" });
   const [tempSelection, setTempSelection] = useState<string | null>(null);
   const [showMoreOptionsDropdown, setShowMoreOptionsDropdown] = useState(false);
+  const [showTemplateForm, setShowTemplateForm] = useState(false);
+  const [templateName, setTemplateName] = useState(
+    initialMappings.find((mapping) => mapping.template)?.template?.name || ""
+  );
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -101,6 +172,125 @@ export default function SmartFieldMappingStep({
     }
   };
 
+  // Map the column to a custom field that is created when the import is
+  // committed
+  const handleCreateCustomField = (index: number) => {
+    const label = customFieldDraft.label.trim();
+    const options = getDraftOptions();
+    if (!label || (isSelectType(customFieldDraft.type) && !options.length)) {
+      return;
+    }
+
+    const updatedMappings = [...mappings];
+    updatedMappings[index] = {
+      ...updatedMappings[index],
+      suggestedField: "new_custom_field",
+      isCustomField: true,
+      dataType: customFieldDraft.type,
+      customFieldConfig: {
+        label,
+        fieldName: FieldMappingService.generateFieldName(label),
+        type: customFieldDraft.type,
+        core: false,
+        ...(isSelectType(customFieldDraft.type) && { options }),
+      },
+    };
+    setMappings(updatedMappings);
+    setShowCustomFieldForm(null);
+  };
+
+  // A row's value for a mapping as it is imported: the combine template
+  // filled in when one is set, else the column's own cell
+  const getSourceValue = (mapping: FieldDetectionResult, row: string[]) =>
+    mapping.combineTemplate
+      ? ColumnCombineService.render(
+          mapping.combineTemplate,
+          row,
+          ColumnCombineService.resolveColumns(mapping.combineTemplate, mappings)
+        )
+      : row[mapping.columnIndex] || "";
+
+  const isSelectType = (type: ContactField["type"]) =>
+    type === "select" || type === "multiselect";
+
+  // Options typed for the new field, without blanks and repeats
+  const getDraftOptions = () =>
+    Array.from(
+      new Set(
+        customFieldDraft.options
+          .split("\n")
+          .map((option) => option.trim())
+          .filter(Boolean)
+      )
+    );
+
+  // Switching the new field to a select type suggests the column's distinct
+  // values as its options
+  const handleCustomFieldTypeChange = (
+    columnIndex: number,
+    type: ContactField["type"]
+  ) => {
+    setCustomFieldDraft((draft) => ({
+      ...draft,
+      type,
+      options:
+        isSelectType(type) && !draft.options.trim()
+          ? FileProcessingService.getUniqueValues(
+              previewRows,
+              columnIndex
+            ).join("\n")
+          : draft.options,
+    }));
+  };
+
+  // Build the field from several columns, or back from this column alone
+  // when the template is cleared
+  const handleCombineTemplateChange = (index: number, template?: string) => {
+    const updatedMappings = [...mappings];
+    updatedMappings[index] = {
+      ...updatedMappings[index],
+      combineTemplate: template,
+    };
+    setMappings(updatedMappings);
+  };
+
+  // Clean up the column's values before validation; undefined hides the
+  // transform editor
+  const handleTransformsChange = (
+    index: number,
+    transforms?: ValueTransform[]
+  ) => {
+    const updatedMappings = [...mappings];
+    updatedMappings[index] = { ...updatedMappings[index], transforms };
+    setMappings(updatedMappings);
+  };
+
+  const handlePhoneFormatChange = (index: number, phoneFormat: PhoneFormat) => {
+    const updatedMappings = [...mappings];
+    updatedMappings[index] = {
+      ...updatedMappings[index],
+      phoneFormat: { ...updatedMappings[index].phoneFormat, ...phoneFormat },
+    };
+    setMappings(updatedMappings);
+  };
+
+  // Send a part of a split name to its own field, or back to the default
+  const handleNameSplitChange = (
+    index: number,
+    part: keyof NameSplitConfig,
+    fieldName: string
+  ) => {
+    const updatedMappings = [...mappings];
+    updatedMappings[index] = {
+      ...updatedMappings[index],
+      nameSplit: {
+        ...updatedMappings[index].nameSplit,
+        [part]: fieldName || undefined,
+      },
+    };
+    setMappings(updatedMappings);
+  };
+
   const handleTempSelection = (fieldName: string) => {
     setTempSelection(fieldName);
     const currentIndex = expandedMapping;
@@ -122,6 +312,44 @@ export default function SmartFieldMappingStep({
     setExpandedMapping(null);
   };
 
+  // Save the current mappings under a name. Saving under an existing
+  // template's name replaces that template.
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+
+    setIsSavingTemplate(true);
+    try {
+      const template = {
+        name,
+        headers: FieldMappingService.getHeaderFingerprint(
+          mappings.map((mapping) => mapping.columnName)
+        ),
+        mappings: FieldMappingService.toTemplateMappings(mappings),
+      };
+      const existing = (await mappingTemplateService.getTemplates()).find(
+        (saved) => saved.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing?.id) {
+        await mappingTemplateService.updateTemplate(existing.id, template);
+      } else {
+        await mappingTemplateService.createTemplate({
+          ...template,
+          createdBy: authService.getCurrentUser()?.uid || "anonymous",
+        });
+      }
+      setTemplateMessage(
+        `Saved template "${name}". Files with the same columns will be mapped this way automatically.`
+      );
+      setShowTemplateForm(false);
+    } catch (error) {
+      console.error("Failed to save mapping template:", error);
+      setTemplateMessage("Failed to save template. Please try again.");
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   const availableFields = getAvailableFields();
 
   return (
@@ -180,6 +408,23 @@ export default function SmartFieldMappingStep({
               {showMoreOptionsDropdown && (
                 <div className="absolute top-full left-0 mt-2 w-64 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg z-50">
                   <div className="py-2">
+                    <button
+                      onClick={() => {
+                        setShowTemplateForm(true);
+                        setTemplateMessage(null);
+                        setShowMoreOptionsDropdown(false);
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                    >
+                      <Image
+                        src="/manage.svg"
+                        alt="Save Template"
+                        width={16}
+                        height={16}
+                        className="w-4 h-4"
+                      />
+                      Save as Template
+                    </button>
                     <button className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2">
                       <Image
                         src="/manage.svg"
@@ -227,13 +472,45 @@ export default function SmartFieldMappingStep({
             </div>
           </div>
         </div>
+
+        {showTemplateForm && (
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveTemplate();
+              }}
+              placeholder="Template name, e.g. Weekly partner file"
+              autoFocus
+              className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleSaveTemplate}
+              disabled={!templateName.trim() || isSavingTemplate}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#1970F3] rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingTemplate ? "Saving..." : "Save Template"}
+            </button>
+            <button
+              onClick={() => setShowTemplateForm(false)}
+              className="px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        {templateMessage && (
+          <p className="text-[13px] text-[#556B75] mb-4">{templateMessage}</p>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto px-6 py-4 relative overflow-x-visible">
         <div className="space-y-4 w-full">
           {mappings.map((mapping, index) => (
             <motion.div
-              key={mapping.columnName}
+              key={mapping.columnIndex}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
@@ -309,7 +586,11 @@ export default function SmartFieldMappingStep({
                             (f) => f.fieldName === mapping.suggestedField
                           )?.label ||
                           (mapping.suggestedField === "new_custom_field"
-                            ? "New Custom Field"
+                            ? mapping.customFieldConfig?.label
+                              ? `New Field: ${mapping.customFieldConfig.label}`
+                              : "New Custom Field"
+                            : mapping.suggestedField === SPLIT_NAME_FIELD
+                            ? SPLIT_NAME_LABEL
                             : mapping.suggestedField)
                         : "Contact Name"}
                     </h3>
@@ -333,6 +614,9 @@ export default function SmartFieldMappingStep({
                                   )?.label ||
                                   (mapping.suggestedField === "new_custom_field"
                                     ? "New Custom Field"
+                                    : mapping.suggestedField ===
+                                      SPLIT_NAME_FIELD
+                                    ? SPLIT_NAME_LABEL
                                     : mapping.suggestedField)
                                 : "Contact Name"}
                             </div>
@@ -369,11 +653,22 @@ export default function SmartFieldMappingStep({
                                 Don&apos;t import this field
                               </button>
                               <button
-                                onClick={() =>
-                                  setShowCustomFieldForm(
-                                    showCustomFieldForm === index ? null : index
-                                  )
-                                }
+                                onClick={() => {
+                                  setCustomFieldDraft({
+                                    label:
+                                      mapping.customFieldConfig?.label ||
+                                      FieldMappingService.formatFieldLabel(
+                                        mapping.columnName
+                                      ),
+                                    type:
+                                      mapping.customFieldConfig?.type || "text",
+                                    options: (
+                                      mapping.customFieldConfig?.options || []
+                                    ).join("\n"),
+                                  });
+                                  setShowCustomFieldForm(index);
+                                  setExpandedMapping(null);
+                                }}
                                 className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm text-[#6B7280] hover:bg-[#F9FAFB] rounded"
                               >
                                 <div className="w-5 h-5 flex items-center justify-center">
@@ -391,6 +686,71 @@ export default function SmartFieldMappingStep({
                                 </div>
                                 Create Custom Field
                               </button>
+                              <button
+                                onClick={() =>
+                                  handleTempSelection(SPLIT_NAME_FIELD)
+                                }
+                                className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm rounded ${
+                                  mapping.suggestedField === SPLIT_NAME_FIELD ||
+                                  tempSelection === SPLIT_NAME_FIELD
+                                    ? "bg-[#F3F4F6] text-[#0E4259]"
+                                    : "text-[#6B7280] hover:bg-[#F9FAFB]"
+                                }`}
+                              >
+                                <div className="w-5 h-5 flex items-center justify-center">
+                                  <svg
+                                    className="w-4 h-4"
+                                    fill="currentColor"
+                                    viewBox="0 0 20 20"
+                                  >
+                                    <path d="M3 4a1 1 0 011-1h5a1 1 0 010 2H4a1 1 0 01-1-1zm0 6a1 1 0 011-1h5a1 1 0 010 2H4a1 1 0 01-1-1zm8 0a1 1 0 011-1h4a1 1 0 110 2h-4a1 1 0 01-1-1zM3 16a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" />
+                                  </svg>
+                                </div>
+                                Split into First &amp; Last Name
+                              </button>
+                              <button
+                                onClick={() => {
+                                  handleCombineTemplateChange(
+                                    index,
+                                    mapping.combineTemplate ||
+                                      `{${mapping.columnName}}`
+                                  );
+                                  setExpandedMapping(null);
+                                }}
+                                className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm text-[#6B7280] hover:bg-[#F9FAFB] rounded"
+                              >
+                                <div className="w-5 h-5 flex items-center justify-center">
+                                  <svg
+                                    className="w-4 h-4"
+                                    fill="currentColor"
+                                    viewBox="0 0 20 20"
+                                  >
+                                    <path d="M3 5a1 1 0 011-1h4a1 1 0 010 2H4a1 1 0 01-1-1zm9 0a1 1 0 011-1h3a1 1 0 110 2h-3a1 1 0 01-1-1zM3 15a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm7-6a1 1 0 011 1v1h1a1 1 0 110 2h-4a1 1 0 110-2h1v-1a1 1 0 011-1z" />
+                                  </svg>
+                                </div>
+                                Combine with Other Columns
+                              </button>
+                              <button
+                                onClick={() => {
+                                  handleTransformsChange(
+                                    index,
+                                    mapping.transforms || []
+                                  );
+                                  setExpandedMapping(null);
+                                }}
+                                className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm text-[#6B7280] hover:bg-[#F9FAFB] rounded"
+                              >
+                                <div className="w-5 h-5 flex items-center justify-center">
+                                  <svg
+                                    className="w-4 h-4"
+                                    fill="currentColor"
+                                    viewBox="0 0 20 20"
+                                  >
+                                    <path d="M5 4a1 1 0 00-2 0v7.268a2 2 0 000 3.464V16a1 1 0 102 0v-1.268a2 2 0 000-3.464V4zM11 4a1 1 0 10-2 0v1.268a2 2 0 000 3.464V16a1 1 0 102 0V8.732a2 2 0 000-3.464V4zM16 3a1 1 0 011 1v7.268a2 2 0 010 3.464V16a1 1 0 11-2 0v-1.268a2 2 0 010-3.464V4a1 1 0 011-1z" />
+                                  </svg>
+                                </div>
+                                Transform Values
+                              </button>
                             </div>
                             <div className="border-t border-[#E5E7EB] px-3 py-2">
                               <div className="text-xs font-semibold text-[#1970F3] uppercase tracking-wide mb-2">
@@ -542,7 +902,9 @@ export default function SmartFieldMappingStep({
                   )}
 
                   <div className="text-[13px] text-[#596A72] font-normal">
-                    {mapping.suggestedField
+                    {mapping.suggestedField === SPLIT_NAME_FIELD
+                      ? "Core Fields • First Name and Last Name • Required"
+                      : mapping.suggestedField
                       ? (() => {
                           const field =
                             availableFields.core.find(
@@ -593,6 +955,382 @@ export default function SmartFieldMappingStep({
                 </div>
               </div>
 
+              {showCustomFieldForm === index && (
+                <div className="mt-4 border-t border-[#EEEEEE] pt-4 flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={customFieldDraft.label}
+                    onChange={(e) =>
+                      setCustomFieldDraft({
+                        ...customFieldDraft,
+                        label: e.target.value,
+                      })
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleCreateCustomField(index);
+                    }}
+                    placeholder="Field label"
+                    autoFocus
+                    className="flex-1 min-w-[200px] px-3 py-1.5 border border-gray-300 rounded-md text-[13px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={customFieldDraft.type}
+                    onChange={(e) =>
+                      handleCustomFieldTypeChange(
+                        mapping.columnIndex,
+                        e.target.value as ContactField["type"]
+                      )
+                    }
+                    className="px-2 py-1.5 border border-gray-300 rounded-md text-[13px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {CUSTOM_FIELD_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleCreateCustomField(index)}
+                    disabled={
+                      !customFieldDraft.label.trim() ||
+                      (isSelectType(customFieldDraft.type) &&
+                        getDraftOptions().length === 0)
+                    }
+                    className="px-4 py-1.5 text-[13px] font-medium text-white bg-[#1970F3] rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Use New Field
+                  </button>
+                  <button
+                    onClick={() => setShowCustomFieldForm(null)}
+                    className="px-3 py-1.5 text-[13px] text-gray-700 hover:bg-gray-100 rounded-md"
+                  >
+                    Cancel
+                  </button>
+                  {isSelectType(customFieldDraft.type) && (
+                    <div className="w-full">
+                      <textarea
+                        value={customFieldDraft.options}
+                        onChange={(e) =>
+                          setCustomFieldDraft({
+                            ...customFieldDraft,
+                            options: e.target.value,
+                          })
+                        }
+                        rows={Math.min(
+                          8,
+                          Math.max(3, getDraftOptions().length + 1)
+                        )}
+                        placeholder="One option per line"
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-[13px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span className="text-[12px] text-[#556B75]">
+                        Suggested from the column&apos;s values. Values that
+                        aren&apos;t options are reported in the final checks.
+                      </span>
+                    </div>
+                  )}
+                  <span className="w-full text-[12px] text-[#556B75]">
+                    The field is created when you move the contacts in.
+                  </span>
+                </div>
+              )}
+
+              {mapping.combineTemplate !== undefined && (
+                <div className="mt-4 border-t border-[#EEEEEE] pt-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={mapping.combineTemplate}
+                      onChange={(e) =>
+                        handleCombineTemplateChange(index, e.target.value)
+                      }
+                      placeholder="{Street}, {City} {Zip}"
+                      className="flex-1 min-w-[200px] px-3 py-1.5 border border-gray-300 rounded-md text-[13px] font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => handleCombineTemplateChange(index)}
+                      className="px-3 py-1.5 text-[13px] text-gray-700 hover:bg-gray-100 rounded-md"
+                    >
+                      Use this column only
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 mb-3 text-[12px] text-[#556B75]">
+                    Add column:
+                    {mappings.map((column) => (
+                      <button
+                        key={column.columnIndex}
+                        onClick={() =>
+                          handleCombineTemplateChange(
+                            index,
+                            `${mapping.combineTemplate}{${column.columnName}}`
+                          )
+                        }
+                        className="px-2 py-0.5 bg-[#F4F5F6] hover:bg-[#E7F5FB] rounded"
+                      >
+                        {column.columnName}
+                      </button>
+                    ))}
+                  </div>
+                  {(() => {
+                    const template = mapping.combineTemplate || "";
+                    const unknownColumns =
+                      ColumnCombineService.getUnknownColumns(
+                        template,
+                        mappings.map((column) => column.columnName)
+                      );
+                    const columns = ColumnCombineService.resolveColumns(
+                      template,
+                      mappings
+                    );
+                    return (
+                      <>
+                        {unknownColumns.length > 0 && (
+                          <p className="text-[12px] text-[#D74141] mb-2">
+                            No column named{" "}
+                            {unknownColumns
+                              .map((name) => `"${name}"`)
+                              .join(", ")}{" "}
+                            in this file
+                          </p>
+                        )}
+                        <div className="space-y-1 text-[13px]">
+                          {sampleRows.map((row, i) => (
+                            <div key={i} className="flex gap-2">
+                              <span className="text-[#556B75]">
+                                Row {i + 1}
+                              </span>
+                              <span className="text-[#0E4259]">
+                                {ColumnCombineService.render(
+                                  template,
+                                  row,
+                                  columns
+                                ) || "—"}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    );
+                  })()}
+                </div>
+              )}
+
+              {mapping.transforms !== undefined && (
+                <div className="mt-4 border-t border-[#EEEEEE] pt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-[13px] font-medium text-[#0E4259]">
+                      Transform values
+                    </span>
+                    <button
+                      onClick={() => handleTransformsChange(index)}
+                      className="px-3 py-1 text-[13px] text-gray-700 hover:bg-gray-100 rounded-md"
+                    >
+                      Remove all steps
+                    </button>
+                  </div>
+                  <ValueTransformsEditor
+                    transforms={mapping.transforms}
+                    samples={sampleRows.map((row) =>
+                      getSourceValue(mapping, row)
+                    )}
+                    onChange={(transforms) =>
+                      handleTransformsChange(index, transforms)
+                    }
+                  />
+                </div>
+              )}
+
+              {mapping.suggestedField === "phone" &&
+                (() => {
+                  const defaultCountry =
+                    mapping.phoneFormat?.defaultCountry ||
+                    getDefaultPhoneCountry();
+                  const countryColumn = mappings.find(
+                    ({ columnName }) =>
+                      columnName === mapping.phoneFormat?.countryColumn
+                  );
+                  return (
+                    <div className="mt-4 border-t border-[#EEEEEE] pt-4">
+                      <div className="flex flex-wrap gap-4 mb-3">
+                        <label className="flex items-center gap-2 text-[13px] text-[#556B75]">
+                          Numbers without a country code are from
+                          <select
+                            value={defaultCountry}
+                            onChange={(e) =>
+                              handlePhoneFormatChange(index, {
+                                defaultCountry: e.target.value,
+                              })
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded-md text-[13px] text-[#0E4259] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {PHONE_COUNTRIES.map(({ iso, name }) => (
+                              <option key={iso} value={iso}>
+                                {name}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-[13px] text-[#556B75]">
+                          Country column
+                          <select
+                            value={countryColumn?.columnName || ""}
+                            onChange={(e) =>
+                              handlePhoneFormatChange(index, {
+                                countryColumn: e.target.value || undefined,
+                              })
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded-md text-[13px] text-[#0E4259] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">None</option>
+                            {mappings
+                              .filter((other) => other !== mapping)
+                              .map(({ columnIndex, columnName }) => (
+                                <option key={columnIndex} value={columnName}>
+                                  {columnName}
+                                </option>
+                              ))}
+                          </select>
+                        </label>
+                      </div>
+                      {sampleRows.length > 0 && (
+                        <table className="w-full text-[13px] text-left">
+                          <thead className="text-[#556B75]">
+                            <tr>
+                              <th className="py-1 pr-4 font-medium">In file</th>
+                              <th className="py-1 pr-4 font-medium">
+                                Matched as
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {sampleRows.map((row, i) => {
+                              const value = ValueTransformService.apply(
+                                getSourceValue(mapping, row),
+                                mapping.transforms
+                              ).trim();
+                              if (!value) return null;
+                              const country =
+                                (countryColumn &&
+                                  PhoneNormalizationService.resolveCountry(
+                                    row[countryColumn.columnIndex] || ""
+                                  )) ||
+                                defaultCountry;
+                              const normalized =
+                                PhoneNormalizationService.toE164(
+                                  value,
+                                  country
+                                );
+                              return (
+                                <tr
+                                  key={i}
+                                  className="border-t border-[#F4F5F6]"
+                                >
+                                  <td className="py-1 pr-4 text-[#556B75]">
+                                    {value}
+                                  </td>
+                                  <td
+                                    className={`py-1 pr-4 ${
+                                      normalized
+                                        ? "text-[#0E4259]"
+                                        : "text-[#D74141]"
+                                    }`}
+                                  >
+                                    {normalized ||
+                                      `Not a valid ${country} number`}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  );
+                })()}
+
+              {mapping.suggestedField === SPLIT_NAME_FIELD && (
+                <div className="mt-4 border-t border-[#EEEEEE] pt-4">
+                  <div className="flex flex-wrap gap-4 mb-3">
+                    {NAME_SPLIT_PARTS.map(({ key, label, defaultLabel }) => (
+                      <label
+                        key={key}
+                        className="flex items-center gap-2 text-[13px] text-[#556B75]"
+                      >
+                        {label}
+                        <select
+                          value={mapping.nameSplit?.[key] || ""}
+                          onChange={(e) =>
+                            handleNameSplitChange(index, key, e.target.value)
+                          }
+                          className="px-2 py-1 border border-gray-300 rounded-md text-[13px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">{defaultLabel}</option>
+                          {availableFields.custom
+                            .filter((field) => field.type === "text")
+                            .map((field) => (
+                              <option key={field.id} value={field.fieldName}>
+                                {field.label}
+                              </option>
+                            ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                  <table className="w-full text-[13px] text-left">
+                    <thead className="text-[#556B75]">
+                      <tr>
+                        <th className="py-1 pr-4 font-medium">Value</th>
+                        <th className="py-1 pr-4 font-medium">First Name</th>
+                        <th className="py-1 pr-4 font-medium">Last Name</th>
+                        {NAME_SPLIT_PARTS.filter(
+                          ({ key }) => mapping.nameSplit?.[key]
+                        ).map(({ key, label }) => (
+                          <th key={key} className="py-1 pr-4 font-medium">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-[#0E4259]">
+                      {sampleRows
+                        .map((row) => getSourceValue(mapping, row))
+                        .filter((value) => value.trim())
+                        .slice(0, 3)
+                        .map((value, i) => {
+                          const split = NameSplitService.split(
+                            ValueTransformService.apply(
+                              value,
+                              mapping.transforms
+                            ),
+                            mapping.nameSplit
+                          );
+                          return (
+                            <tr key={i} className="border-t border-[#F4F5F6]">
+                              <td className="py-1 pr-4 text-[#556B75]">
+                                {value}
+                              </td>
+                              <td className="py-1 pr-4">
+                                {split.firstName || "—"}
+                              </td>
+                              <td className="py-1 pr-4">
+                                {split.lastName || "—"}
+                              </td>
+                              {NAME_SPLIT_PARTS.map(({ key }) => {
+                                const fieldName = mapping.nameSplit?.[key];
+                                return fieldName ? (
+                                  <td key={key} className="py-1 pr-4">
+                                    {split[fieldName] || "—"}
+                                  </td>
+                                ) : null;
+                              })}
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {mapping.confidence < 50 && (
                 <div className="mt-4 bg-[#FFF2EF] border-t border-[#FFE5E5] rounded-b-[16px] -mx-4 sm:-mx-6 px-4 sm:px-6 py-3 -mb-4 sm:-mb-6">
                   <div className="flex items-center justify-center gap-2">
@@ -0,0 +1,286 @@
+"use client";
+
+import { ValueTransform } from "../../types/firestore";
+import {
+  createTransform,
+  DATE_FORMATS,
+  TRANSFORM_LABELS,
+  ValueTransformService,
+} from "../../lib/value-transforms";
+
+interface ValueTransformsEditorProps {
+  transforms: ValueTransform[];
+  // Raw values of the column in the first rows, for the preview
+  samples: string[];
+  onChange: (transforms: ValueTransform[]) => void;
+}
+
+const inputClassName =
+  "px-2 py-1 border border-gray-300 rounded-md text-[13px] focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ValueTransformsEditor({
+  transforms,
+  samples,
+  onChange,
+}: ValueTransformsEditorProps) {
+  const updateTransform = (index: number, transform: ValueTransform) =>
+    onChange(transforms.map((t, i) => (i === index ? transform : t)));
+
+  const removeTransform = (index: number) =>
+    onChange(transforms.filter((_, i) => i !== index));
+
+  const renderSettings = (transform: ValueTransform, index: number) => {
+    switch (transform.type) {
+      case "trim":
+        return (
+          <span className="text-[12px] text-[#556B75]">
+            Removes spaces around the value and collapses repeated spaces
+          </span>
+        );
+
+      case "case":
+        return (
+          <select
+            value={transform.mode}
+            onChange={(e) =>
+              updateTransform(index, {
+                ...transform,
+                mode: e.target.value as typeof transform.mode,
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="title">Title Case</option>
+            <option value="upper">UPPERCASE</option>
+            <option value="lower">lowercase</option>
+          </select>
+        );
+
+      case "replace": {
+        const error = ValueTransformService.getError(transform);
+        return (
+          <>
+            <input
+              type="text"
+              value={transform.pattern}
+              onChange={(e) =>
+                updateTransform(index, {
+                  ...transform,
+                  pattern: e.target.value,
+                })
+              }
+              placeholder="Regular expression"
+              className={`${inputClassName} font-mono`}
+            />
+            <input
+              type="text"
+              value={transform.replacement}
+              onChange={(e) =>
+                updateTransform(index, {
+                  ...transform,
+                  replacement: e.target.value,
+                })
+              }
+              placeholder="Replace with ($1 for groups)"
+              className={`${inputClassName} font-mono`}
+            />
+            <label className="flex items-center gap-1 text-[12px] text-[#556B75]">
+              <input
+                type="checkbox"
+                checked={transform.ignoreCase}
+                onChange={(e) =>
+                  updateTransform(index, {
+                    ...transform,
+                    ignoreCase: e.target.checked,
+                  })
+                }
+              />
+              Ignore case
+            </label>
+            {error && (
+              <span className="text-[12px] text-[#D74141]">{error}</span>
+            )}
+          </>
+        );
+      }
+
+      case "lookup":
+        return (
+          <div className="flex flex-col gap-1">
+            {transform.entries.map((entry, entryIndex) => (
+              <div key={entryIndex} className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={entry.from}
+                  onChange={(e) =>
+                    updateTransform(index, {
+                      ...transform,
+                      entries: transform.entries.map((other, i) =>
+                        i === entryIndex
+                          ? { ...other, from: e.target.value }
+                          : other
+                      ),
+                    })
+                  }
+                  placeholder="Value, e.g. Y"
+                  className={inputClassName}
+                />
+                <span className="text-[#556B75]">→</span>
+                <input
+                  type="text"
+                  value={entry.to}
+                  onChange={(e) =>
+                    updateTransform(index, {
+                      ...transform,
+                      entries: transform.entries.map((other, i) =>
+                        i === entryIndex
+                          ? { ...other, to: e.target.value }
+                          : other
+                      ),
+                    })
+                  }
+                  placeholder="Becomes, e.g. true"
+                  className={inputClassName}
+                />
+                <button
+                  onClick={() =>
+                    updateTransform(index, {
+                      ...transform,
+                      entries: transform.entries.filter(
+                        (_, i) => i !== entryIndex
+                      ),
+                    })
+                  }
+                  className="px-2 text-[#556B75] hover:text-[#D74141]"
+                  aria-label="Remove value"
+                >
+                  x
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() =>
+                updateTransform(index, {
+                  ...transform,
+                  entries: [...transform.entries, { from: "", to: "" }],
+                })
+              }
+              className="self-start text-[12px] text-[#1970F3] hover:underline"
+            >
+              + Add value
+            </button>
+          </div>
+        );
+
+      case "date":
+        return (
+          <>
+            <select
+              value={transform.format}
+              onChange={(e) =>
+                updateTransform(index, {
+                  ...transform,
+                  format: e.target.value,
+                })
+              }
+              className={inputClassName}
+            >
+              {DATE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {format}
+                </option>
+              ))}
+            </select>
+            <span className="text-[12px] text-[#556B75]">
+              Saved as YYYY-MM-DD
+            </span>
+          </>
+        );
+
+      case "default":
+        return (
+          <input
+            type="text"
+            value={transform.value}
+            onChange={(e) =>
+              updateTransform(index, { ...transform, value: e.target.value })
+            }
+            placeholder="Value for empty cells"
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      <div className="space-y-2 mb-3">
+        {transforms.map((transform, index) => (
+          <div key={index} className="flex flex-wrap items-start gap-2">
+            <span className="text-[13px] font-medium text-[#0E4259] w-32 pt-1">
+              {index + 1}. {TRANSFORM_LABELS[transform.type]}
+            </span>
+            <div className="flex flex-wrap items-center gap-2 flex-1">
+              {renderSettings(transform, index)}
+            </div>
+            <button
+              onClick={() => removeTransform(index)}
+              className="px-2 py-1 text-[12px] text-[#556B75] hover:text-[#D74141]"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          onChange([
+            ...transforms,
+            createTransform(e.target.value as ValueTransform["type"]),
+          ]);
+        }}
+        className={`${inputClassName} mb-3`}
+      >
+        <option value="">+ Add step...</option>
+        {Object.entries(TRANSFORM_LABELS).map(([type, label]) => (
+          <option key={type} value={type}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {samples.length > 0 && (
+        <table className="w-full text-[13px] text-left">
+          <thead className="text-[#556B75]">
+            <tr>
+              <th className="py-1 pr-4 font-medium">Before</th>
+              <th className="py-1 pr-4 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {samples.map((sample, i) => {
+              const after = ValueTransformService.apply(sample, transforms);
+              return (
+                <tr key={i} className="border-t border-[#F4F5F6]">
+                  <td className="py-1 pr-4 text-[#556B75] whitespace-pre">
+                    {sample || "—"}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 whitespace-pre ${
+                      after !== sample ? "text-[#008D0E]" : "text-[#0E4259]"
+                    }`}
+                  >
+                    {after || "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,23 @@
 "use client";
 
 import { useState } from "react";
-import { Users, Settings, FileUp, Database, Sparkles } from "lucide-react";
+import {
+  Users,
+  Settings,
+  FileUp,
+  Database,
+  Sparkles,
+  History,
+} from "lucide-react";
 import ContactsTable from "./components/ContactsTable";
 import ImportModal from "./components/ImportModal";
 import UserManagement from "./components/UserManagement";
 import FieldManagement from "./components/FieldManagement";
+import ImportHistory from "./components/ImportHistory";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-type TabType = "contacts" | "import" | "users" | "fields";
+type TabType = "contacts" | "imports" | "users" | "fields";
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<TabType>("contacts");
@@ -17,6 +25,7 @@ export default function Home() {
 
   const tabs = [
     { id: "contacts" as TabType, label: "Contacts", icon: Database },
+    { id: "imports" as TabType, label: "Imports", icon: History },
     { id: "users" as TabType, label: "Users", icon: Users },
     { id: "fields" as TabType, label: "Fields", icon: Settings },
   ];
@@ -25,6 +34,8 @@ export default function Home() {
     switch (activeTab) {
       case "contacts":
         return <ContactsTable onImportClick={() => setShowImportModal(true)} />;
+      case "imports":
+        return <ImportHistory />;
       case "users":
         return <UserManagement />;
       case "fields":
@@ -74,7 +85,7 @@ export default function Home() {
           onValueChange={(value) => setActiveTab(value as TabType)}
           className="w-full"
         >
-          <TabsList className="grid w-full grid-cols-3 bg-white/60 backdrop-blur-sm border border-slate-200/60 shadow-sm mb-8">
+          <TabsList className="grid w-full grid-cols-4 bg-white/60 backdrop-blur-sm border border-slate-200/60 shadow-sm mb-8">
             {tabs.map((tab) => {
               const Icon = tab.icon;
               return (
@@ -94,6 +105,10 @@ export default function Home() {
             {renderContent()}
           </TabsContent>
 
+          <TabsContent value="imports" className="mt-0">
+            {renderContent()}
+          </TabsContent>
+
           <TabsContent value="users" className="mt-0">
             {renderContent()}
           </TabsContent>
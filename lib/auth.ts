@@ -60,6 +60,17 @@ export const authService = {
     return auth.currentUser;
   },
 
+  // ID token of the signed-in user for the app's own API routes, or
+  // undefined when signed out
+  getIdToken: async (): Promise<string | undefined> => {
+    try {
+      return await auth.currentUser?.getIdToken();
+    } catch (error) {
+      console.error("Failed to get ID token:", error);
+      return undefined;
+    }
+  },
+
   onAuthStateChanged: (callback: (user: User | null) => void) => {
     return onAuthStateChanged(auth, callback);
   },
@@ -4,13 +4,16 @@ import {
   getDocs,
   getDoc,
   addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
   query,
   where,
   orderBy,
   limit,
+  documentId,
   writeBatch,
+  increment,
   Timestamp,
   DocumentData,
   QueryConstraint,
@@ -18,13 +21,35 @@ import {
   DocumentReference,
 } from "firebase/firestore";
 import { db } from "./firebase";
-import { Contact, ContactField, User, ImportSession } from "../types/firestore";
+import {
+  Contact,
+  ContactField,
+  User,
+  ImportSession,
+  ImportSessionDetails,
+  ImportSessionDetailsChunk,
+  MappingTemplate,
+  FieldSynonym,
+} from "../types/firestore";
 
 // Collections
 export const contactsRef = collection(db, "contacts");
 export const contactFieldsRef = collection(db, "contactFields");
 export const usersRef = collection(db, "users");
 export const importSessionsRef = collection(db, "importSessions");
+export const mappingTemplatesRef = collection(db, "mappingTemplates");
+export const fieldSynonymsRef = collection(db, "fieldSynonyms");
+
+// Firestore rejects write batches with more than 500 operations
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Firestore "in" queries accept at most 30 values
+const FIRESTORE_IN_QUERY_LIMIT = 30;
+
+// Entries per import session details document. Snapshots and error rows
+// carry a whole contact or row each, so fewer of them fit.
+const SESSION_IDS_PER_CHUNK = 500;
+const SESSION_ROWS_PER_CHUNK = 100;
 
 // Core contact fields that cannot be deleted
 export const CORE_FIELDS: Omit<ContactField, "id">[] = [
@@ -133,6 +158,27 @@ export const contactService = {
     return queryDocuments<Contact>(contactsRef, constraints);
   },
 
+  // Get every contact, e.g. to check a large import for duplicates in one read
+  getAllContacts: async (): Promise<Contact[]> => {
+    return queryDocuments<Contact>(contactsRef);
+  },
+
+  // Get specific contacts by document id
+  getContactsByIds: async (ids: string[]): Promise<Contact[]> => {
+    const contacts: Contact[] = [];
+
+    for (let i = 0; i < ids.length; i += FIRESTORE_IN_QUERY_LIMIT) {
+      const chunk = ids.slice(i, i + FIRESTORE_IN_QUERY_LIMIT);
+      contacts.push(
+        ...(await queryDocuments<Contact>(contactsRef, [
+          where(documentId(), "in", chunk),
+        ]))
+      );
+    }
+
+    return contacts;
+  },
+
   // Search contacts
   searchContacts: async (searchTerm: string): Promise<Contact[]> => {
     // Firestore doesn't support full-text search, so we'll implement client-side filtering
@@ -174,40 +220,76 @@ export const contactService = {
     return null;
   },
 
-  // Batch create contacts
+  // Batch create contacts, split into chunks that fit in a single write batch
   createContactsBatch: async (
     contacts: Omit<Contact, "id" | "createdOn">[]
   ): Promise<string[]> => {
-    const batch = writeBatch(db);
-    const docRefs: DocumentReference[] = [];
-
-    contacts.forEach((contact) => {
-      const docRef = doc(contactsRef);
-      batch.set(docRef, {
-        ...contact,
-        createdOn: Timestamp.now(),
+    const ids: string[] = [];
+
+    for (let i = 0; i < contacts.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      const docRefs: DocumentReference[] = [];
+
+      contacts.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((contact) => {
+        const docRef = doc(contactsRef);
+        batch.set(docRef, {
+          ...contact,
+          createdOn: Timestamp.now(),
+        });
+        docRefs.push(docRef);
+      });
+
+      await batch.commit();
+      ids.push(...docRefs.map((ref) => ref.id));
+    }
+
+    return ids;
+  },
+
+  // Batch overwrite existing contacts (e.g. the result of mergeContacts)
+  updateContactsBatch: async (contacts: Contact[]): Promise<void> => {
+    for (let i = 0; i < contacts.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+
+      contacts.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((contact) => {
+        const { id, ...data } = contact;
+        if (!id) {
+          throw new Error("Cannot update a contact without an id");
+        }
+        batch.set(doc(contactsRef, id), data);
       });
-      docRefs.push(docRef);
-    });
 
-    await batch.commit();
-    return docRefs.map((ref) => ref.id);
+      await batch.commit();
+    }
+  },
+
+  // Batch delete contacts by id
+  deleteContactsBatch: async (ids: string[]): Promise<void> => {
+    for (let i = 0; i < ids.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      ids.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((id) => {
+        batch.delete(doc(contactsRef, id));
+      });
+      await batch.commit();
+    }
   },
 
   // Merge contacts (for deduplication)
   mergeContacts: (existing: Contact, newData: Partial<Contact>): Contact => {
     const merged = { ...existing };
 
-    // Only update non-empty fields
+    // Only update non-empty fields. false and 0 are values of checkbox and
+    // number fields, not empty ones.
     Object.keys(newData).forEach((key) => {
+      const value = newData[key as keyof Contact];
       if (
         key !== "id" &&
         key !== "createdOn" &&
-        newData[key as keyof Contact]
+        value !== undefined &&
+        value !== null &&
+        value !== ""
       ) {
-        merged[key as keyof Contact] = newData[
-          key as keyof Contact
-        ] as Contact[keyof Contact];
+        merged[key as keyof Contact] = value as Contact[keyof Contact];
       }
     });
 
@@ -330,4 +412,103 @@ export const importSessionService = {
       orderBy("createdOn", "desc"),
     ]);
   },
+
+  // Write what a committed import did to the session's details, split into
+  // documents that stay well under the size limit
+  saveDetails: async (
+    id: string,
+    details: ImportSessionDetails
+  ): Promise<void> => {
+    const detailsRef = collection(importSessionsRef, id, "details");
+    const chunks: Omit<ImportSessionDetailsChunk, "id">[] = [];
+    (Object.keys(details) as (keyof ImportSessionDetails)[]).forEach((list) => {
+      const items = details[list];
+      const size =
+        list === "createdContactIds" || list === "mergedContactIds"
+          ? SESSION_IDS_PER_CHUNK
+          : SESSION_ROWS_PER_CHUNK;
+      for (let i = 0; i < items.length; i += size) {
+        chunks.push({ list, index: i / size, items: items.slice(i, i + size) });
+      }
+    });
+
+    for (let i = 0; i < chunks.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      chunks.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((chunk) => {
+        batch.set(doc(detailsRef), chunk);
+      });
+      await batch.commit();
+    }
+  },
+
+  // Read a session's details back, with any errors kept on the session itself
+  getDetails: async (session: ImportSession): Promise<ImportSessionDetails> => {
+    const details: ImportSessionDetails = {
+      errorDetails: [...(session.results.errorDetails || [])],
+      createdContactIds: [],
+      mergedContactIds: [],
+      mergeSnapshots: [],
+    };
+    if (!session.id) return details;
+
+    const chunks = await queryDocuments<ImportSessionDetailsChunk>(
+      collection(importSessionsRef, session.id, "details"),
+      [orderBy("index", "asc")]
+    );
+    chunks.forEach(({ list, items }) => {
+      (details[list] as unknown[]).push(...items);
+    });
+    return details;
+  },
+};
+
+// Mapping Template operations
+export const mappingTemplateService = {
+  // Most recently created first
+  getTemplates: async (): Promise<MappingTemplate[]> => {
+    return queryDocuments<MappingTemplate>(mappingTemplatesRef, [
+      orderBy("createdOn", "desc"),
+    ]);
+  },
+
+  createTemplate: async (
+    template: Omit<MappingTemplate, "id" | "createdOn">
+  ): Promise<string> => {
+    return createDocument(mappingTemplatesRef, {
+      ...template,
+      createdOn: Timestamp.now(),
+    });
+  },
+
+  updateTemplate: async (
+    id: string,
+    template: Partial<MappingTemplate>
+  ): Promise<void> => {
+    return updateDocument(mappingTemplatesRef, id, template);
+  },
+
+  deleteTemplate: async (id: string): Promise<void> => {
+    return deleteDocument(mappingTemplatesRef, id);
+  },
+};
+
+// Field Synonym operations
+export const fieldSynonymService = {
+  getSynonyms: async (): Promise<FieldSynonym[]> => {
+    return queryDocuments<FieldSynonym>(fieldSynonymsRef);
+  },
+
+  // Count one more correction of a (normalized) header to a field. Headers
+  // can contain "/", which document ids can't.
+  recordCorrection: async (header: string, field: string): Promise<void> => {
+    await setDoc(
+      doc(fieldSynonymsRef, encodeURIComponent(header)),
+      {
+        header,
+        fields: { [field]: increment(1) },
+        updatedOn: Timestamp.now(),
+      },
+      { merge: true }
+    );
+  },
 };
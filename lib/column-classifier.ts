@@ -0,0 +1,184 @@
+import { FileProcessingService } from "./file-processing";
+
+// Field a column's values look like, regardless of its header
+export interface ColumnClassification {
+  field: "firstName" | "lastName" | "email" | "phone";
+  // 0-100
+  confidence: number;
+}
+
+// Common given names and surnames, lowercased. Only used to tell first and
+// last name columns apart, so they don't need to be complete.
+const FIRST_NAMES = new Set(
+  (
+    "aaron adam aisha alan albert alex alexander alice amanda amy ana andrea " +
+    "andrew angela anna anne anthony arjun ashley barbara ben benjamin betty " +
+    "bill bob brandon brian carlos carol catherine charles chris christina " +
+    "christopher daniel david deborah dennis diana donald donna dorothy " +
+    "edward elena elizabeth emily emma eric frank gary george grace hannah " +
+    "harry helen henry isabella jack james jane jason jeff jennifer jessica " +
+    "joe john jose joseph joshua juan julia karen kate kenneth kevin kimberly " +
+    "laura linda lisa liam lucas luis margaret maria mark mary matthew " +
+    "melissa michael michelle mike mohammed nancy nicole noah olivia oliver " +
+    "patricia paul peter priya rachel rahul raj rebecca richard robert ryan " +
+    "sam samuel sandra sarah scott sophia stephanie steven susan thomas tim " +
+    "timothy tom victoria william"
+  ).split(" ")
+);
+
+const LAST_NAMES = new Set(
+  (
+    "adams ahmed ali allen anderson baker brown campbell carter chen clark " +
+    "collins cook davis diaz edwards evans garcia gomez gonzalez green gupta " +
+    "hall harris hernandez hill jackson johnson jones khan kim king kumar lee " +
+    "lewis li lopez martin martinez miller mitchell moore morgan morris " +
+    "murphy nelson nguyen parker patel perez phillips ramirez reddy rivera " +
+    "roberts robinson rodriguez sanchez scott sharma singh smith stewart " +
+    "taylor thomas thompson torres turner walker wang white williams wilson " +
+    "wright young zhang"
+  ).split(" ")
+);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s\-().]+(\s*(x|ext\.?)\s*\d+)?$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// A single name: letters, hyphens and apostrophes, starting with a capital
+const NAME_PATTERN = /^\p{Lu}[\p{L}'\-]*$/u;
+
+// Headers that say nothing about the column: blank, positional ("Column 5",
+// "Col1", "Field 3", "Unnamed: 0") or a spreadsheet letter
+const GENERIC_HEADER_PATTERN =
+  /^((col(umn)?|field|var|unnamed|untitled)[\s_:.#-]*\d*|[a-z]|\d+)?$/i;
+
+// Share of values that must fit a field before the column is classified
+const MIN_SCORE = 0.6;
+// Content alone never makes a mapping certain
+const MAX_CONFIDENCE = 85;
+// Below this share of distinct values a column looks like a category
+// ("Active", "Lead") rather than names or phone numbers
+const MIN_UNIQUE_SHARE = 0.3;
+// Rows needed before the share of distinct values says anything
+const MIN_ROWS_FOR_UNIQUENESS = 10;
+
+// Guesses what a column holds from its values alone, for files whose headers
+// are missing or meaningless
+export class ColumnClassifier {
+  static isGenericHeader(header: string): boolean {
+    return GENERIC_HEADER_PATTERN.test(header.trim());
+  }
+
+  // Whether a single value fits the field. A header that fits the field its
+  // column holds is really the first data row of a headerless file.
+  static matchesField(
+    value: string,
+    field: ColumnClassification["field"]
+  ): boolean {
+    const trimmed = value.trim();
+    switch (field) {
+      case "email":
+        return EMAIL_PATTERN.test(trimmed);
+      case "phone":
+        return this.isPhone(trimmed);
+      case "firstName":
+        return FIRST_NAMES.has(trimmed.toLowerCase());
+      case "lastName":
+        return LAST_NAMES.has(trimmed.toLowerCase());
+    }
+  }
+
+  // Whether a row taken for the header is really data: every filled cell
+  // fits the field its column's values (the rows below) are classified as
+  static isDataRow(row: string[], rows: string[][]): boolean {
+    const cells = row.map((cell) => (cell || "").trim());
+    if (!cells.some(Boolean)) return false;
+
+    const classifications = this.classifyColumns(rows, cells.length);
+    return cells.every((cell, index) => {
+      const classification = classifications.get(index);
+      return (
+        !cell ||
+        (!!classification && this.matchesField(cell, classification.field))
+      );
+    });
+  }
+
+  // Best field for one column, or null when no field fits well enough
+  static classify(
+    rows: string[][],
+    columnIndex: number
+  ): ColumnClassification | null {
+    const stats = FileProcessingService.getColumnStats(rows, columnIndex);
+    if (stats.filledRows === 0) return null;
+
+    const values = rows
+      .map((row) => (row[columnIndex] || "").trim())
+      .filter(Boolean);
+    const share = (test: (value: string) => boolean) =>
+      values.filter(test).length / values.length;
+
+    const repetitive =
+      stats.filledRows >= MIN_ROWS_FOR_UNIQUENESS &&
+      stats.uniqueValues / stats.filledRows < MIN_UNIQUE_SHARE;
+
+    const nameShare = share((value) => NAME_PATTERN.test(value));
+    const firstNameShare = share((value) =>
+      FIRST_NAMES.has(value.toLowerCase())
+    );
+    const lastNameShare = share((value) => LAST_NAMES.has(value.toLowerCase()));
+
+    const scores: [ColumnClassification["field"], number][] = [
+      ["email", share((value) => EMAIL_PATTERN.test(value))],
+      ["phone", share((value) => this.isPhone(value)) * (repetitive ? 0.5 : 1)],
+      // Capitalized single words are names; the dictionaries decide which
+      [
+        "firstName",
+        firstNameShare > lastNameShare
+          ? nameShare * (0.4 + 0.6 * firstNameShare) * (repetitive ? 0.5 : 1)
+          : 0,
+      ],
+      [
+        "lastName",
+        lastNameShare > firstNameShare
+          ? nameShare * (0.4 + 0.6 * lastNameShare) * (repetitive ? 0.5 : 1)
+          : 0,
+      ],
+    ];
+
+    const [field, score] = scores.sort((a, b) => b[1] - a[1])[0];
+    if (score < MIN_SCORE) return null;
+
+    return { field, confidence: Math.round(score * MAX_CONFIDENCE) };
+  }
+
+  // Classify every column, giving each field only to the column that fits
+  // it best
+  static classifyColumns(
+    rows: string[][],
+    columnCount: number
+  ): Map<number, ColumnClassification> {
+    const best = new Map<string, [number, ColumnClassification]>();
+
+    for (let index = 0; index < columnCount; index++) {
+      const classification = this.classify(rows, index);
+      if (!classification) continue;
+
+      const current = best.get(classification.field);
+      if (!current || classification.confidence > current[1].confidence) {
+        best.set(classification.field, [index, classification]);
+      }
+    }
+
+    return new Map(best.values());
+  }
+
+  // 7 to 15 digits, with only the punctuation phone numbers are written
+  // with. Bare numbers need 10 digits so IDs aren't taken for phones.
+  private static isPhone(value: string): boolean {
+    if (!PHONE_PATTERN.test(value) || ISO_DATE_PATTERN.test(value)) {
+      return false;
+    }
+    const digits = value.replace(/\D/g, "").length;
+    const minDigits = /^\d+$/.test(value) ? 10 : 7;
+    return digits >= minDigits && digits <= 15;
+  }
+}
@@ -0,0 +1,82 @@
+// Column names in a combine template are written in braces:
+// "{Street}, {City} {Zip}"
+const PLACEHOLDER_PATTERN = /(\{[^{}]+\})/;
+// Brackets and quotes that open before a column or close after it
+const OPENING_PATTERN = /[(\[<"'\u201c\u2018]+$/;
+const CLOSING_PATTERN = /^[)\]>"'\u201d\u2019]+/;
+
+// Fills a field from several columns of the same row, for files that spread
+// one value over many columns
+export class ColumnCombineService {
+  // Column names the template refers to, in order
+  static getColumnNames(template: string): string[] {
+    return template
+      .split(PLACEHOLDER_PATTERN)
+      .filter((_, i) => i % 2 === 1)
+      .map((placeholder) => placeholder.slice(1, -1).trim());
+  }
+
+  // Column names in the template that aren't headers of the file
+  static getUnknownColumns(template: string, headers: string[]): string[] {
+    const known = new Set(headers.map((header) => header.toLowerCase().trim()));
+    return this.getColumnNames(template).filter(
+      (name) => !known.has(name.toLowerCase())
+    );
+  }
+
+  // Positions of the template's columns, keyed by lowercased column name
+  static resolveColumns(
+    template: string,
+    headers: { columnName: string; columnIndex: number }[]
+  ): Record<string, number> {
+    const columns: Record<string, number> = {};
+    this.getColumnNames(template).forEach((name) => {
+      const header = headers.find(
+        ({ columnName }) =>
+          columnName.toLowerCase().trim() === name.toLowerCase()
+      );
+      if (header) columns[name.toLowerCase()] = header.columnIndex;
+    });
+    return columns;
+  }
+
+  // Fill in the template from a row. Text between two columns is only kept
+  // when both have a value, so blank cells don't leave stray separators
+  // ("Main St, , 02139"). Text before the first column, after the last and
+  // brackets or quotes around a column go with that column, on both sides
+  // alike: "{Name} ({Title})" gives "(Manager)" or "Ann", never "Manager)".
+  static render(
+    template: string,
+    row: string[],
+    columns: Record<string, number>
+  ): string {
+    const segments = template.split(PLACEHOLDER_PATTERN);
+    let result = "";
+    let hasValue = false;
+    let separator = "";
+    let opening = segments[0];
+
+    for (let i = 1; i < segments.length; i += 2) {
+      const isLast = i === segments.length - 2;
+      const after = segments[i + 1];
+      const closing = isLast ? after : CLOSING_PATTERN.exec(after)?.[0] || "";
+      const between = after.slice(closing.length);
+      const nextOpening = isLast
+        ? ""
+        : OPENING_PATTERN.exec(between)?.[0] || "";
+
+      const index = columns[segments[i].slice(1, -1).trim().toLowerCase()];
+      const value = index === undefined ? "" : (row[index] || "").trim();
+      if (value) {
+        if (hasValue) result += separator;
+        result += opening + value + closing;
+        hasValue = true;
+      }
+
+      separator = between.slice(0, between.length - nextOpening.length);
+      opening = nextOpening;
+    }
+
+    return result.trim();
+  }
+}
@@ -0,0 +1,746 @@
+import { Timestamp } from "firebase/firestore";
+import {
+  Contact,
+  ContactField,
+  ContactSnapshot,
+  ImportSession,
+  ImportSessionDetails,
+} from "../types/firestore";
+import {
+  contactService,
+  contactFieldService,
+  importSessionService,
+  FIRESTORE_BATCH_LIMIT,
+} from "./collections";
+import { FieldDetectionResult, FieldMappingService } from "./field-mapping";
+import { authService } from "./auth";
+import { EmailCheckService } from "./email-checks";
+import {
+  getDefaultPhoneCountry,
+  PhoneNormalizationService,
+} from "./phone-normalization";
+import {
+  ContactRowData,
+  FieldRule,
+  MULTISELECT_SEPARATOR,
+  RowValidationResult,
+} from "./contact-validation";
+
+// What the final checks decided to do with each file row
+export type ImportRowAction =
+  | { row: number; action: "create"; data: ContactRowData }
+  | {
+      row: number;
+      action: "merge";
+      data: ContactRowData;
+      existingContact: Contact;
+    }
+  | { row: number; action: "error"; errors: string[]; data: ContactRowData };
+
+export interface ImportRowResult {
+  row: number;
+  status: "imported" | "merged" | "error";
+  contactId?: string;
+  error?: string;
+  data?: ContactRowData;
+}
+
+export interface ImportResults {
+  imported: number;
+  merged: number;
+  errors: number;
+  errorDetails: string[];
+  rowResults: ImportRowResult[];
+  mergeSnapshots: ContactSnapshot[];
+}
+
+export interface RevertResults {
+  deleted: number;
+  restored: number;
+  skipped: number;
+}
+
+// Custom field to create when the import is committed
+export type NewContactField = Omit<ContactField, "id" | "createdOn">;
+
+// Contact document keys a custom field can't use
+const RESERVED_FIELD_NAMES = [
+  "id",
+  "createdOn",
+  "updatedOn",
+  "source",
+  "phoneE164",
+];
+
+export interface DuplicateMatch {
+  existingContact: Contact;
+  confidence: number;
+}
+
+// Existing contacts keyed for duplicate lookups, so checking a row does not
+// need a Firestore read
+export interface DuplicateIndex {
+  byEmail: Map<string, Contact>;
+  byPhone: Map<string, Contact>;
+  byName: Map<string, Contact>;
+}
+
+// What the final checks settled on. The rows themselves aren't kept; they
+// are read from the file again when the import is committed.
+export interface ImportPlan {
+  mappings: FieldDetectionResult[];
+  // Contact fields the rows were checked against
+  fields: FieldRule[];
+  // Custom fields the mappings write to that are created on commit
+  newFields: NewContactField[];
+  totalRows: number;
+}
+
+// A commit in progress, carried from one chunk of rows to the next
+export interface ImportCommit {
+  fields: FieldRule[];
+  // Contacts created by this import by dedup key, so a row repeating one
+  // in a later chunk is folded into it
+  createdIds: Map<string, string>;
+  // Before-image of each existing contact merged into, by contact id
+  snapshots: Map<string, ContactSnapshot>;
+  rowResults: ImportRowResult[];
+}
+
+interface PendingCreate {
+  rows: number[];
+  keys: string[];
+  data: ContactRowData;
+}
+
+interface PendingMerge {
+  rows: number[];
+  contactId: string;
+  // Merges into a contact created from an earlier chunk of the file
+  createdByImport: boolean;
+  data: ContactRowData;
+}
+
+export class ContactImportService {
+  // Normalize email for duplicate matching, so "j.doe+news@gmail.com" and
+  // "jdoe@gmail.com" are the same contact
+  static normalizeEmail(email: string): string {
+    return EmailCheckService.normalizeForMatching(email);
+  }
+
+  // Normalize phone for duplicate matching. The E.164 form makes
+  // "+44 20 7946 0958" and "020 7946 0958" from a UK file the same number;
+  // contacts saved before it was stored are read for the default country.
+  static normalizePhone(phone: string, phoneE164?: string): string {
+    return (
+      phoneE164 ||
+      PhoneNormalizationService.toE164(phone, getDefaultPhoneCountry()) ||
+      phone.replace(/\D/g, "")
+    );
+  }
+
+  // Load existing contacts once and index them for findDuplicate
+  static async buildDuplicateIndex(): Promise<DuplicateIndex> {
+    const index: DuplicateIndex = {
+      byEmail: new Map(),
+      byPhone: new Map(),
+      byName: new Map(),
+    };
+
+    const contacts = await contactService.getAllContacts();
+    contacts.forEach((contact) => {
+      // Keep the first contact seen for each key
+      const email = contact.email ? this.normalizeEmail(contact.email) : "";
+      if (email && !index.byEmail.has(email)) {
+        index.byEmail.set(email, contact);
+      }
+      const phone = contact.phone
+        ? this.normalizePhone(contact.phone, contact.phoneE164)
+        : "";
+      if (phone && !index.byPhone.has(phone)) {
+        index.byPhone.set(phone, contact);
+      }
+      const name = this.getNameKey(contact.firstName, contact.lastName);
+      if (name && !index.byName.has(name)) {
+        index.byName.set(name, contact);
+      }
+    });
+
+    return index;
+  }
+
+  // Match a row against existing contacts by email, then phone, then full name
+  static findDuplicate(
+    index: DuplicateIndex,
+    data: ContactRowData
+  ): DuplicateMatch | null {
+    const email = data.email ? this.normalizeEmail(data.email) : "";
+    const emailMatch = email ? index.byEmail.get(email) : undefined;
+    if (emailMatch) {
+      return { existingContact: emailMatch, confidence: 100 };
+    }
+
+    const phone = data.phone
+      ? this.normalizePhone(data.phone, data.phoneE164)
+      : "";
+    const phoneMatch = phone ? index.byPhone.get(phone) : undefined;
+    if (phoneMatch) {
+      return { existingContact: phoneMatch, confidence: 95 };
+    }
+
+    const name = this.getNameKey(data.firstName, data.lastName);
+    const nameMatch = name ? index.byName.get(name) : undefined;
+    if (nameMatch) {
+      return { existingContact: nameMatch, confidence: 70 };
+    }
+
+    return null;
+  }
+
+  // Point every column mapped to "new_custom_field" at the field it will
+  // create. A custom field with the same name, label and type is reused;
+  // other clashes with existing or reserved names get a number ("notes2").
+  // Also returns every field the rows will be validated against.
+  static async planCustomFields(mappings: FieldDetectionResult[]): Promise<{
+    mappings: FieldDetectionResult[];
+    newFields: NewContactField[];
+    fields: FieldRule[];
+  }> {
+    const existingFields = await contactFieldService.getFields();
+    if (!mappings.some((m) => m.suggestedField === "new_custom_field")) {
+      return { mappings, newFields: [], fields: existingFields };
+    }
+
+    const takenNames = new Set(
+      [...existingFields.map((f) => f.fieldName), ...RESERVED_FIELD_NAMES].map(
+        (name) => name.toLowerCase()
+      )
+    );
+    const newFields: NewContactField[] = [];
+
+    const planned = mappings.map((mapping) => {
+      if (mapping.suggestedField !== "new_custom_field") return mapping;
+
+      const config = mapping.customFieldConfig || {};
+      const label =
+        config.label?.trim() ||
+        FieldMappingService.formatFieldLabel(mapping.columnName);
+      const type = config.type || "text";
+      const baseName =
+        config.fieldName?.trim() ||
+        FieldMappingService.generateFieldName(label) ||
+        "customField";
+
+      const existing = existingFields.find(
+        (field) =>
+          !field.core &&
+          field.type === type &&
+          (field.fieldName === baseName ||
+            field.label.toLowerCase() === label.toLowerCase())
+      );
+      if (existing) {
+        return { ...mapping, suggestedField: existing.fieldName };
+      }
+
+      let fieldName = baseName;
+      for (let n = 2; takenNames.has(fieldName.toLowerCase()); n++) {
+        fieldName = `${baseName}${n}`;
+      }
+      takenNames.add(fieldName.toLowerCase());
+      newFields.push({
+        label,
+        fieldName,
+        type,
+        core: false,
+        required: !!config.required,
+        ...(config.options?.length && { options: config.options }),
+      });
+
+      return {
+        ...mapping,
+        suggestedField: fieldName,
+        customFieldConfig: { ...config, label, fieldName, type },
+      };
+    });
+
+    return {
+      mappings: planned,
+      newFields,
+      fields: [...existingFields, ...newFields],
+    };
+  }
+
+  // Create the custom fields planned by planCustomFields, skipping any that
+  // were created since
+  static async createCustomFields(newFields: NewContactField[]): Promise<void> {
+    if (newFields.length === 0) return;
+
+    const existingNames = new Set(
+      (await contactFieldService.getFields()).map((field) => field.fieldName)
+    );
+    for (const field of newFields) {
+      if (!existingNames.has(field.fieldName)) {
+        await contactFieldService.createField(field);
+      }
+    }
+  }
+
+  // What to do with a checked row: report its errors, merge it into the
+  // existing contact it duplicates, or create a new contact
+  static planRow(
+    result: RowValidationResult,
+    duplicateIndex: DuplicateIndex
+  ): ImportRowAction {
+    const { row, data, errors } = result;
+    if (errors.length > 0) {
+      return { row, action: "error", errors, data };
+    }
+    const duplicate = this.findDuplicate(duplicateIndex, data);
+    return duplicate
+      ? {
+          row,
+          action: "merge",
+          data,
+          existingContact: duplicate.existingContact,
+        }
+      : { row, action: "create", data };
+  }
+
+  // Start committing an import. Its fields include the custom fields created
+  // for it, so those must be created first.
+  static async startCommit(): Promise<ImportCommit> {
+    return {
+      fields: await contactFieldService.getFields(),
+      createdIds: new Map(),
+      snapshots: new Map(),
+      rowResults: [],
+    };
+  }
+
+  // Write one chunk of planned rows to Firestore and record what happened to
+  // each row in the commit
+  static async commitRows(
+    commit: ImportCommit,
+    actions: ImportRowAction[]
+  ): Promise<void> {
+    const creates: PendingCreate[] = [];
+    const createsByKey = new Map<string, PendingCreate>();
+    const merges = new Map<string, PendingMerge>();
+
+    const addMerge = (
+      contactId: string,
+      createdByImport: boolean,
+      action: ImportRowAction
+    ) => {
+      const pending = merges.get(contactId);
+      if (pending) {
+        pending.rows.push(action.row);
+        this.foldRowData(pending.data, action.data);
+      } else {
+        merges.set(contactId, {
+          rows: [action.row],
+          contactId,
+          createdByImport,
+          data: { ...action.data },
+        });
+      }
+    };
+
+    for (const action of actions) {
+      if (action.action === "error") {
+        commit.rowResults.push({
+          row: action.row,
+          status: "error",
+          error: action.errors.join(", "),
+          data: action.data,
+        });
+        continue;
+      }
+
+      if (action.action === "merge") {
+        addMerge(action.existingContact.id as string, false, action);
+        continue;
+      }
+
+      // Rows repeating a contact created earlier in the same file are folded
+      // into that contact instead of creating a second document
+      const keys = this.getDedupKeys(action.data);
+      const createdId = keys
+        .map((key) => commit.createdIds.get(key))
+        .find((id) => id !== undefined);
+      if (createdId) {
+        addMerge(createdId, true, action);
+        continue;
+      }
+
+      const earlier = keys
+        .map((key) => createsByKey.get(key))
+        .find((pending) => pending !== undefined);
+
+      const pending = earlier || { rows: [], keys: [], data: {} };
+      if (!earlier) {
+        creates.push(pending);
+      }
+      pending.rows.push(action.row);
+      pending.keys.push(...keys);
+      this.foldRowData(pending.data, action.data);
+      keys.forEach((key) => createsByKey.set(key, pending));
+    }
+
+    await this.commitCreates(creates, commit);
+    await this.commitMerges(Array.from(merges.values()), commit);
+  }
+
+  // Report on a commit once every chunk of rows is written
+  static finishCommit(commit: ImportCommit): ImportResults {
+    const rowResults = [...commit.rowResults].sort((a, b) => a.row - b.row);
+
+    return {
+      imported: rowResults.filter((r) => r.status === "imported").length,
+      merged: rowResults.filter((r) => r.status === "merged").length,
+      errors: rowResults.filter((r) => r.status === "error").length,
+      errorDetails: rowResults
+        .filter((r) => r.status === "error")
+        .map((r) => `Row ${r.row}: ${r.error}`),
+      rowResults,
+      mergeSnapshots: Array.from(commit.snapshots.values()),
+    };
+  }
+
+  // Create new contacts one write batch at a time so a failure only fails its rows
+  private static async commitCreates(
+    creates: PendingCreate[],
+    commit: ImportCommit
+  ): Promise<void> {
+    for (let i = 0; i < creates.length; i += FIRESTORE_BATCH_LIMIT) {
+      const chunk = creates.slice(i, i + FIRESTORE_BATCH_LIMIT);
+
+      try {
+        const ids = await contactService.createContactsBatch(
+          chunk.map(({ data }) => ({
+            ...this.toFieldValues(data, commit.fields),
+            firstName: data.firstName,
+            lastName: data.lastName,
+            phone: data.phone,
+            email: data.email,
+            source: "import" as const,
+          }))
+        );
+
+        chunk.forEach((pending, index) => {
+          pending.keys.forEach((key) => commit.createdIds.set(key, ids[index]));
+          pending.rows.forEach((row, position) => {
+            commit.rowResults.push({
+              row,
+              status: position === 0 ? "imported" : "merged",
+              contactId: ids[index],
+            });
+          });
+        });
+      } catch (error) {
+        console.error("Failed to create contacts batch:", error);
+        this.failRows(chunk, error, commit.rowResults);
+      }
+    }
+  }
+
+  // Apply merges to the matched existing contacts in chunked write batches,
+  // keeping a before-image of each contact so the import can be reverted.
+  // The contacts are read again first: the ones in the plan are from when the
+  // rows were checked, and edits made since then must not be lost.
+  private static async commitMerges(
+    merges: PendingMerge[],
+    commit: ImportCommit
+  ): Promise<void> {
+    for (let i = 0; i < merges.length; i += FIRESTORE_BATCH_LIMIT) {
+      let chunk = merges.slice(i, i + FIRESTORE_BATCH_LIMIT);
+
+      try {
+        const currentContacts = new Map(
+          (
+            await contactService.getContactsByIds(
+              chunk.map(({ contactId }) => contactId)
+            )
+          ).map((contact) => [contact.id as string, contact])
+        );
+
+        this.failRows(
+          chunk.filter(({ contactId }) => !currentContacts.has(contactId)),
+          new Error("The matching contact was deleted before the import"),
+          commit.rowResults
+        );
+        chunk = chunk.filter(({ contactId }) => currentContacts.has(contactId));
+
+        const existingContacts = chunk.map(
+          ({ contactId }) => currentContacts.get(contactId) as Contact
+        );
+        const mergedContacts = chunk.map(({ createdByImport, data }, index) => {
+          const merged = contactService.mergeContacts(
+            existingContacts[index],
+            this.toFieldValues(data, commit.fields)
+          );
+          // Folding rows into a contact this import created isn't an edit,
+          // which revert would otherwise ask about
+          if (createdByImport) {
+            delete merged.updatedOn;
+          }
+          return merged;
+        });
+        await contactService.updateContactsBatch(mergedContacts);
+
+        chunk.forEach((pending, index) => {
+          if (!pending.createdByImport) {
+            // Later merges into the same contact keep the first before-image
+            // and only move on the updatedOn that revert checks for edits
+            const { id, ...before } = existingContacts[index];
+            const snapshot = commit.snapshots.get(pending.contactId);
+            commit.snapshots.set(pending.contactId, {
+              contactId: id as string,
+              before: snapshot ? snapshot.before : before,
+              updatedOn: mergedContacts[index].updatedOn as Timestamp,
+            });
+          }
+
+          pending.rows.forEach((row) => {
+            commit.rowResults.push({
+              row,
+              status: "merged",
+              contactId: pending.contactId,
+            });
+          });
+        });
+      } catch (error) {
+        console.error("Failed to merge contacts batch:", error);
+        this.failRows(chunk, error, commit.rowResults);
+      }
+    }
+  }
+
+  // Validated row values in the Firestore type of their field: numbers,
+  // booleans, Timestamps and option lists instead of their canonical strings
+  private static toFieldValues(
+    data: ContactRowData,
+    fields: FieldRule[]
+  ): Partial<Contact> {
+    const values: Partial<Contact> = { ...data };
+    fields.forEach(({ fieldName, type, core }) => {
+      const value = data[fieldName];
+      if (core || !value) return;
+      if (type === "number") {
+        values[fieldName] = Number(value);
+      } else if (type === "checkbox") {
+        values[fieldName] = value === "true";
+      } else if (type === "datetime") {
+        values[fieldName] = Timestamp.fromDate(new Date(value));
+      } else if (type === "multiselect") {
+        values[fieldName] = value.split(MULTISELECT_SEPARATOR);
+      }
+    });
+    return values;
+  }
+
+  private static failRows(
+    chunk: Array<{ rows: number[]; data: ContactRowData }>,
+    error: unknown,
+    rowResults: ImportRowResult[]
+  ): void {
+    const message =
+      error instanceof Error ? error.message : "Failed to save contact";
+
+    chunk.forEach((pending) => {
+      pending.rows.forEach((row) => {
+        rowResults.push({
+          row,
+          status: "error",
+          error: message,
+          data: pending.data,
+        });
+      });
+    });
+  }
+
+  // Column name -> contact field for the session record, skipping unmapped columns
+  static getMappedFields(
+    mappings: FieldDetectionResult[]
+  ): Record<string, string> {
+    const mappedFields: Record<string, string> = {};
+    mappings.forEach((mapping) => {
+      if (mapping.suggestedField) {
+        mappedFields[mapping.columnName] = mapping.suggestedField;
+      }
+    });
+    return mappedFields;
+  }
+
+  // Session-shaped summary of a committed import
+  static toSessionResults(results: ImportResults): ImportSession["results"] {
+    return {
+      imported: results.imported,
+      merged: results.merged,
+      errors: results.errors,
+    };
+  }
+
+  // What a committed import did row by row, to store in the session details
+  static toSessionDetails(results: ImportResults): ImportSessionDetails {
+    // Rows folded into a contact created by this import count as created
+    const createdContactIds = this.getContactIds(results, "imported");
+    const created = new Set(createdContactIds);
+
+    return {
+      errorDetails: results.rowResults
+        .filter((r) => r.status === "error")
+        .map((r) => ({
+          row: r.row,
+          error: r.error || "Unknown error",
+          data: r.data || {},
+        })),
+      createdContactIds,
+      mergedContactIds: this.getContactIds(results, "merged").filter(
+        (id) => !created.has(id)
+      ),
+      mergeSnapshots: results.mergeSnapshots,
+    };
+  }
+
+  // Mark a session completed. The details are written first, so a completed
+  // session can always be reverted. Errors are thrown, since the import
+  // can't be reverted without them.
+  static async completeSession(
+    sessionId: string,
+    results: ImportResults
+  ): Promise<void> {
+    await importSessionService.saveDetails(
+      sessionId,
+      this.toSessionDetails(results)
+    );
+    await importSessionService.updateSession(sessionId, {
+      status: "completed",
+      results: this.toSessionResults(results),
+      completedOn: Timestamp.now(),
+    });
+  }
+
+  // Contacts touched by the import that have changed since it ran. Created
+  // contacts count as edited once they have an updatedOn; merged contacts when
+  // their updatedOn no longer matches the one the import wrote (or they are gone).
+  // Merged contacts already restored by a failed revert are not edits.
+  static async findEditedSinceImport(
+    details: ImportSessionDetails
+  ): Promise<string[]> {
+    const createdIds = details.createdContactIds;
+    const snapshots = details.mergeSnapshots;
+
+    const currentContacts = await contactService.getContactsByIds([
+      ...createdIds,
+      ...snapshots.map((snapshot) => snapshot.contactId),
+    ]);
+    const contactsById = new Map(
+      currentContacts.map((contact) => [contact.id, contact])
+    );
+
+    const editedIds = createdIds.filter(
+      (id) => contactsById.get(id)?.updatedOn
+    );
+    snapshots.forEach((snapshot) => {
+      const current = contactsById.get(snapshot.contactId);
+      const updatedOn = current?.updatedOn;
+      const restored = snapshot.before.updatedOn
+        ? updatedOn?.isEqual(snapshot.before.updatedOn)
+        : current && !updatedOn;
+      if (!current || (!updatedOn?.isEqual(snapshot.updatedOn) && !restored)) {
+        editedIds.push(snapshot.contactId);
+      }
+    });
+
+    return editedIds;
+  }
+
+  // Delete the contacts an import created and restore the ones it merged into,
+  // leaving the contacts listed in skipContactIds untouched. The session is
+  // only marked reverted once every batch is written; deletes and restores can
+  // be repeated, so a revert that failed part way can be run again.
+  static async revertImport(
+    session: ImportSession,
+    details: ImportSessionDetails,
+    skipContactIds: string[] = []
+  ): Promise<RevertResults> {
+    if (!session.id) {
+      throw new Error("Cannot revert an import session without an id");
+    }
+    if (session.status !== "completed") {
+      throw new Error("Only completed imports can be reverted");
+    }
+
+    const skipped = new Set(skipContactIds);
+    const deleteIds = details.createdContactIds.filter(
+      (id) => !skipped.has(id)
+    );
+    const restores = details.mergeSnapshots.filter(
+      (snapshot) => !skipped.has(snapshot.contactId)
+    );
+
+    try {
+      await contactService.deleteContactsBatch(deleteIds);
+      await contactService.updateContactsBatch(
+        restores.map(
+          (snapshot) =>
+            ({ ...snapshot.before, id: snapshot.contactId } as Contact)
+        )
+      );
+    } catch (error) {
+      console.error("Failed to revert import batches:", error);
+      throw new Error(
+        "The import could not be fully reverted. Revert it again to finish."
+      );
+    }
+
+    await importSessionService.updateSession(session.id, {
+      status: "reverted",
+      revertedBy: authService.getCurrentUser()?.uid || "anonymous",
+      revertedOn: Timestamp.now(),
+    });
+
+    return {
+      deleted: deleteIds.length,
+      restored: restores.length,
+      skipped: skipped.size,
+    };
+  }
+
+  private static getContactIds(
+    results: ImportResults,
+    status: ImportRowResult["status"]
+  ): string[] {
+    const ids = results.rowResults
+      .filter((r) => r.status === status && r.contactId)
+      .map((r) => r.contactId as string);
+    return Array.from(new Set(ids));
+  }
+
+  // Only copy non-empty values, matching contactService.mergeContacts
+  private static foldRowData(target: ContactRowData, source: ContactRowData) {
+    Object.entries(source).forEach(([key, value]) => {
+      if (value) {
+        target[key] = value;
+      }
+    });
+  }
+
+  private static getNameKey(firstName?: string, lastName?: string): string {
+    const first = firstName?.toLowerCase().trim() || "";
+    const last = lastName?.toLowerCase().trim() || "";
+    return first && last ? `${first} ${last}` : "";
+  }
+
+  private static getDedupKeys(data: ContactRowData): string[] {
+    const keys: string[] = [];
+    if (data.email) {
+      keys.push(`email:${this.normalizeEmail(data.email)}`);
+    }
+    if (data.phone) {
+      keys.push(`phone:${this.normalizePhone(data.phone, data.phoneE164)}`);
+    }
+    return keys;
+  }
+}
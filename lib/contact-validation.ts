@@ -0,0 +1,395 @@
+import { FieldDetectionResult } from "./field-mapping";
+import {
+  NameSplitConfig,
+  NameSplitService,
+  SPLIT_NAME_FIELD,
+} from "./name-splitting";
+import { ColumnCombineService } from "./column-combining";
+import { ValueTransformService } from "./value-transforms";
+import { getEditDistance } from "./edit-distance";
+import { EmailCheckService } from "./email-checks";
+import {
+  getDefaultPhoneCountry,
+  PhoneNormalizationService,
+} from "./phone-normalization";
+import { ContactField, ValueTransform } from "../types/firestore";
+
+// Mapped values for a single file row, keyed by contact field name. Values of
+// number, date, checkbox and multi-select fields are written in a canonical
+// form ("1234.5", "2024-03-01", "true", "Red; Blue") and converted to their
+// Firestore types on commit.
+export type ContactRowData = Record<string, string>;
+
+// What validation needs to know about a contact field
+export type FieldRule = Pick<
+  ContactField,
+  "fieldName" | "label" | "type" | "core" | "required" | "options"
+>;
+
+// Joins the chosen options of a multi-select value in ContactRowData
+export const MULTISELECT_SEPARATOR = "; ";
+
+// Accepted ways of writing a checkbox value, compared lowercased
+const CHECKBOX_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  y: true,
+  "1": true,
+  x: true,
+  checked: true,
+  on: true,
+  false: false,
+  no: false,
+  n: false,
+  "0": false,
+  unchecked: false,
+  off: false,
+};
+
+// "2024-03-01", optionally followed by a time ("2024-03-01T09:30:00Z")
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// Digits with optional thousands separators, sign, decimals and a currency
+// symbol or percent sign around them
+const NUMBER_PATTERN =
+  /^[-+]?[$€£¥]?\s*[-+]?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?\s*%?$/;
+
+// Where a mapped contact field is read from in each file row
+export interface ColumnBinding {
+  field: string;
+  index: number;
+  // Set when the column holds whole names split across several fields
+  nameSplit?: NameSplitConfig;
+  // Set when the value is built from several columns
+  combine?: { template: string; columns: Record<string, number> };
+  // Cleanup applied to the value before it is split or validated
+  transforms?: ValueTransform[];
+  // Set on the phone column, to read its numbers into E.164
+  phone?: { defaultCountry: string; countryIndex?: number };
+}
+
+export interface RowValidationResult {
+  row: number;
+  data: ContactRowData;
+  errors: string[];
+  // Worth a look but don't stop the row from being imported
+  warnings: string[];
+}
+
+// Row mapping and validation. Kept free of Firebase imports so it can run
+// inside the import worker.
+export class ContactValidationService {
+  static validateEmail(email: string): boolean {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+
+  static validatePhone(
+    phone: string,
+    country: string = getDefaultPhoneCountry()
+  ): boolean {
+    return PhoneNormalizationService.toE164(phone, country) !== null;
+  }
+
+  // The rules of each field, without the rest of its document (timestamps
+  // can't be posted to the import worker)
+  static toFieldRules(fields: FieldRule[]): FieldRule[] {
+    return fields.map(
+      ({ fieldName, label, type, core, required, options }) => ({
+        fieldName,
+        label,
+        type,
+        core,
+        required,
+        ...(options && { options }),
+      })
+    );
+  }
+
+  // Resolve each mapped column to its position in the file rows
+  static getColumnBindings(mappings: FieldDetectionResult[]): ColumnBinding[] {
+    return mappings
+      .filter(
+        (mapping) =>
+          mapping.suggestedField &&
+          mapping.suggestedField !== "new_custom_field"
+      )
+      .map((mapping) => ({
+        field: mapping.suggestedField,
+        index: mapping.columnIndex,
+        ...(mapping.suggestedField === SPLIT_NAME_FIELD && {
+          nameSplit: mapping.nameSplit || {},
+        }),
+        ...(mapping.transforms?.length && { transforms: mapping.transforms }),
+        ...(mapping.suggestedField === "phone" && {
+          phone: {
+            defaultCountry:
+              mapping.phoneFormat?.defaultCountry || getDefaultPhoneCountry(),
+            countryIndex: mappings.find(
+              ({ columnName }) =>
+                !!mapping.phoneFormat?.countryColumn &&
+                columnName === mapping.phoneFormat.countryColumn
+            )?.columnIndex,
+          },
+        }),
+        ...(mapping.combineTemplate && {
+          combine: {
+            template: mapping.combineTemplate,
+            columns: ColumnCombineService.resolveColumns(
+              mapping.combineTemplate,
+              mappings
+            ),
+          },
+        }),
+      }));
+  }
+
+  static mapRow(row: string[], bindings: ColumnBinding[]): ContactRowData {
+    const contactData: ContactRowData = {};
+    bindings.forEach(
+      ({ field, index, nameSplit, combine, transforms, phone }) => {
+        const value = ValueTransformService.apply(
+          combine
+            ? ColumnCombineService.render(
+                combine.template,
+                row,
+                combine.columns
+              )
+            : row[index] || "",
+          transforms
+        );
+        if (!value.trim()) return;
+        if (nameSplit) {
+          Object.assign(contactData, NameSplitService.split(value, nameSplit));
+        } else {
+          contactData[field] = value.trim();
+        }
+        // The number as written is kept for display; phoneE164 is left out
+        // when it isn't a valid number of the row's country
+        if (phone) {
+          const country =
+            (phone.countryIndex !== undefined &&
+              PhoneNormalizationService.resolveCountry(
+                row[phone.countryIndex] || ""
+              )) ||
+            phone.defaultCountry;
+          const normalized = PhoneNormalizationService.toE164(value, country);
+          if (normalized) contactData.phoneE164 = normalized;
+        }
+      }
+    );
+    return contactData;
+  }
+
+  static validateContactData(contactData: ContactRowData): string[] {
+    const errors: string[] = [];
+
+    if (!contactData.firstName?.trim()) {
+      errors.push("First name is required");
+    }
+    if (!contactData.lastName?.trim()) {
+      errors.push("Last name is required");
+    }
+    if (!contactData.email?.trim()) {
+      errors.push("Email is required");
+    }
+    if (!contactData.phone?.trim()) {
+      errors.push("Phone is required");
+    }
+
+    if (contactData.email && !this.validateEmail(contactData.email)) {
+      errors.push("Invalid email format");
+    }
+
+    // mapRow only sets phoneE164 for numbers it could read
+    if (contactData.phone && !contactData.phoneE164) {
+      errors.push("Invalid phone format");
+    }
+
+    return errors;
+  }
+
+  // Check the custom fields of a mapped row against their type and required
+  // flag, rewriting typed values in their canonical form. Core fields are
+  // checked by validateContactData.
+  static validateFieldValues(
+    contactData: ContactRowData,
+    fields: FieldRule[]
+  ): { data: ContactRowData; errors: string[] } {
+    const data = { ...contactData };
+    const errors: string[] = [];
+
+    fields
+      .filter((field) => !field.core)
+      .forEach((field) => {
+        const value = data[field.fieldName]?.trim();
+        if (!value) {
+          if (field.required) errors.push(`${field.label} is required`);
+          return;
+        }
+
+        if (field.type === "select" || field.type === "multiselect") {
+          const optionErrors: string[] = [];
+          const matched = this.matchOptions(value, field, optionErrors);
+          // Rows with errors keep the file's value so it shows in the report
+          if (optionErrors.length) errors.push(...optionErrors);
+          else data[field.fieldName] = matched;
+          return;
+        }
+
+        const coerced = this.coerceValue(value, field.type);
+        if (coerced === null) {
+          errors.push(
+            `${field.label}: "${value}" ${this.getTypeError(field.type)}`
+          );
+        } else {
+          data[field.fieldName] = coerced;
+        }
+      });
+
+    return { data, errors };
+  }
+
+  // A value written in the canonical form of the field type, or null when it
+  // can't be read as that type
+  static coerceValue(value: string, type: FieldRule["type"]): string | null {
+    switch (type) {
+      case "number": {
+        if (!NUMBER_PATTERN.test(value) || !/\d/.test(value)) return null;
+        const number = Number(value.replace(/[^\d.+-]/g, ""));
+        return Number.isFinite(number) ? String(number) : null;
+      }
+
+      case "datetime": {
+        const match = value.match(ISO_DATE_PATTERN);
+        if (!match) return null;
+        const date = new Date(match[4] ? value.replace(" ", "T") : value);
+        // Rejects days that don't exist, like 2024-02-30
+        const day = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+        if (
+          isNaN(date.getTime()) ||
+          day.toISOString().slice(0, 10) !== value.slice(0, 10)
+        ) {
+          return null;
+        }
+        return match[4] ? date.toISOString() : value;
+      }
+
+      case "checkbox": {
+        const checked = CHECKBOX_VALUES[value.toLowerCase()];
+        return checked === undefined ? null : String(checked);
+      }
+
+      case "email":
+        return this.validateEmail(value) ? value : null;
+
+      case "phone":
+        return this.validatePhone(value) ? value : null;
+
+      default:
+        return value;
+    }
+  }
+
+  // The field's options written in the value, matched ignoring case. Values
+  // that aren't options are reported, with the closest option when one is
+  // only a typo away.
+  private static matchOptions(
+    value: string,
+    field: FieldRule,
+    errors: string[]
+  ): string {
+    const options = field.options || [];
+    const findOption = (item: string) =>
+      options.find((option) => option.toLowerCase() === item.toLowerCase());
+
+    // A multi-select value lists options separated by commas, semicolons or
+    // pipes, unless the whole value is one option ("Smith, Jones & Co")
+    const items =
+      field.type === "multiselect" && !findOption(value)
+        ? value
+            .split(/[,;|]/)
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : [value];
+
+    const matched: string[] = [];
+    items.forEach((item) => {
+      const option = findOption(item);
+      if (option) {
+        if (!matched.includes(option)) matched.push(option);
+        return;
+      }
+      const suggestion = this.getClosestOption(item, options);
+      errors.push(
+        `${field.label}: "${item}" is not an option` +
+          (suggestion ? `. Did you mean "${suggestion}"?` : "")
+      );
+    });
+    return matched.join(MULTISELECT_SEPARATOR);
+  }
+
+  // The option within a few typos of the value, allowing one edit for every
+  // four letters
+  private static getClosestOption(
+    value: string,
+    options: string[]
+  ): string | null {
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    options.forEach((option) => {
+      const distance = getEditDistance(
+        value.toLowerCase(),
+        option.toLowerCase()
+      );
+      const maxDistance = Math.max(1, Math.floor(option.length / 4));
+      if (distance <= maxDistance && distance < closestDistance) {
+        closest = option;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  }
+
+  private static getTypeError(type: FieldRule["type"]): string {
+    switch (type) {
+      case "number":
+        return "is not a number";
+      case "datetime":
+        return "is not a date in YYYY-MM-DD form (a Parse date step can convert it)";
+      case "checkbox":
+        return "is not yes or no";
+      case "email":
+        return "is not a valid email";
+      case "phone":
+        return "is not a valid phone number";
+      default:
+        return "is not valid";
+    }
+  }
+
+  // Map and validate a run of file rows. rowNumbers holds the 1-based number
+  // of each row in the file, which the results are reported under.
+  static validateRows(
+    rows: string[][],
+    bindings: ColumnBinding[],
+    rowNumbers: number[],
+    fields: FieldRule[] = []
+  ): RowValidationResult[] {
+    return rows.map((row, i) => {
+      const { data, errors } = this.validateFieldValues(
+        this.mapRow(row, bindings),
+        fields
+      );
+      return {
+        row: rowNumbers[i],
+        data,
+        errors: [...this.validateContactData(data), ...errors],
+        warnings:
+          data.email && this.validateEmail(data.email)
+            ? EmailCheckService.getWarnings(data.email)
+            : [],
+      };
+    });
+  }
+}
@@ -0,0 +1,155 @@
+export type CsvEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: string;
+  quoteChar: string;
+  // Detected only; a byte order mark is stripped when the file is decoded
+  hasBOM: boolean;
+}
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252 (Western European)" },
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ",", label: "Comma ( , )" },
+  { value: ";", label: "Semicolon ( ; )" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe ( | )" },
+];
+
+export const CSV_QUOTE_CHARS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote ( " )' },
+  { value: "'", label: "Single quote ( ' )" },
+];
+
+// Bytes read from the start of the file to detect its format
+const SAMPLE_SIZE = 64 * 1024;
+// Lines compared when detecting the delimiter
+const SAMPLE_LINES = 20;
+
+export class CsvFormatService {
+  // Detect the encoding, delimiter and quote character from the file's first bytes
+  static async detect(file: File): Promise<CsvFormat> {
+    const bytes = new Uint8Array(
+      await file.slice(0, SAMPLE_SIZE).arrayBuffer()
+    );
+    const { encoding, hasBOM } = this.detectEncoding(bytes);
+    const text = new TextDecoder(encoding).decode(bytes);
+    const quoteChar = this.detectQuoteChar(text);
+
+    return {
+      encoding,
+      delimiter: this.detectDelimiter(text, quoteChar),
+      quoteChar,
+      hasBOM,
+    };
+  }
+
+  static detectEncoding(bytes: Uint8Array): {
+    encoding: CsvEncoding;
+    hasBOM: boolean;
+  } {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return { encoding: "utf-8", hasBOM: true };
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return { encoding: "utf-16le", hasBOM: true };
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return { encoding: "utf-16be", hasBOM: true };
+    }
+
+    // Without a BOM, UTF-16 text still shows up as mostly-zero high bytes
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0) {
+        if (i % 2 === 0) evenZeros++;
+        else oddZeros++;
+      }
+    }
+    const pairs = bytes.length / 2;
+    if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+      return { encoding: "utf-16le", hasBOM: false };
+    }
+    if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+      return { encoding: "utf-16be", hasBOM: false };
+    }
+
+    // Anything that isn't valid UTF-8 is most likely a legacy Windows export.
+    // stream: true keeps a character cut off at the end of the sample from
+    // counting as invalid.
+    try {
+      new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+      return { encoding: "utf-8", hasBOM: false };
+    } catch {
+      return { encoding: "windows-1252", hasBOM: false };
+    }
+  }
+
+  // Pick the delimiter that splits the most lines into the same number of
+  // fields, preferring more fields when lines agree equally
+  static detectDelimiter(text: string, quoteChar: string = '"'): string {
+    const lines = text
+      .split(/\r\n|\n|\r/)
+      // The last line of the sample may be cut off
+      .slice(0, -1)
+      .filter((line) => line.trim().length > 0)
+      .slice(0, SAMPLE_LINES);
+    if (lines.length === 0) {
+      lines.push(text);
+    }
+
+    let best = CSV_DELIMITERS[0].value;
+    let bestScore = 0;
+
+    CSV_DELIMITERS.forEach(({ value: delimiter }) => {
+      const frequencies = new Map<number, number>();
+      lines.forEach((line) => {
+        const count = this.countOutsideQuotes(line, delimiter, quoteChar);
+        if (count > 0) {
+          frequencies.set(count, (frequencies.get(count) || 0) + 1);
+        }
+      });
+
+      frequencies.forEach((lineCount, fieldCount) => {
+        const score = lineCount * 1000 + fieldCount;
+        if (score > bestScore) {
+          best = delimiter;
+          bestScore = score;
+        }
+      });
+    });
+
+    return best;
+  }
+
+  // Single quotes only win when they open noticeably more fields
+  static detectQuoteChar(text: string): string {
+    const opening = (quote: string) =>
+      (text.match(new RegExp(`(^|[,;\\t|])${quote}`, "gm")) || []).length;
+    return opening("'") > opening('"') * 2 ? "'" : '"';
+  }
+
+  private static countOutsideQuotes(
+    line: string,
+    delimiter: string,
+    quoteChar: string
+  ): number {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === quoteChar) {
+        inQuotes = !inQuotes;
+      } else if (char === delimiter && !inQuotes) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  FieldDetectionResult,
+  FieldMappingService,
+  MappingReferenceData,
+} from "./field-mapping";
+import {
+  ColumnDetectionRequest,
+  ColumnSuggestion,
+  LLM_SAMPLE_ROWS,
+} from "./llm-column-detection";
+
+// Suggests a contact field for every column of a file
+export interface DetectionProvider {
+  readonly name: string;
+  detectColumns(
+    headers: string[],
+    sampleData: string[][],
+    referenceData: MappingReferenceData
+  ): Promise<FieldDetectionResult[]>;
+}
+
+// Header and data pattern matching in FieldMappingService
+export class HeuristicDetectionProvider implements DetectionProvider {
+  readonly name = "heuristic";
+
+  detectColumns(
+    headers: string[],
+    sampleData: string[][],
+    referenceData: MappingReferenceData
+  ): Promise<FieldDetectionResult[]> {
+    return new FieldMappingService(referenceData).analyzeFileHeaders(
+      headers,
+      sampleData
+    );
+  }
+}
+
+// Route that forwards to the configured OpenAI-compatible model
+export const LLM_DETECTION_ENDPOINT = "/api/column-detection";
+
+// Penalty when the model and the heuristic disagree on a column
+const DISAGREEMENT_PENALTY = 10;
+const MAX_MERGED_CONFIDENCE = 99;
+
+// Asks a language model for suggestions and merges them into the heuristic
+// results. Falls back to the heuristic results when the model can't be
+// reached.
+export class LlmDetectionProvider implements DetectionProvider {
+  readonly name = "llm";
+  private endpoint: string;
+  private baseProvider: DetectionProvider;
+  // Firebase ID token of the signed-in user, which the route requires
+  private idToken?: string;
+
+  constructor(
+    endpoint: string = LLM_DETECTION_ENDPOINT,
+    baseProvider: DetectionProvider = new HeuristicDetectionProvider(),
+    idToken?: string
+  ) {
+    this.endpoint = endpoint;
+    this.baseProvider = baseProvider;
+    this.idToken = idToken;
+  }
+
+  async detectColumns(
+    headers: string[],
+    sampleData: string[][],
+    referenceData: MappingReferenceData
+  ): Promise<FieldDetectionResult[]> {
+    const results = await this.baseProvider.detectColumns(
+      headers,
+      sampleData,
+      referenceData
+    );
+
+    try {
+      const suggestions = await this.requestSuggestions({
+        headers,
+        sampleData: sampleData.slice(0, LLM_SAMPLE_ROWS),
+        fields: referenceData.contactFields.map(
+          ({ fieldName, label, type }) => ({ fieldName, label, type })
+        ),
+      });
+      return this.mergeSuggestions(results, suggestions, referenceData);
+    } catch (error) {
+      console.warn("LLM column detection failed, using heuristics:", error);
+      return results;
+    }
+  }
+
+  private async requestSuggestions(
+    request: ColumnDetectionRequest
+  ): Promise<ColumnSuggestion[]> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.idToken && { Authorization: `Bearer ${this.idToken}` }),
+      },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(`Column detection failed with ${response.status}`);
+    }
+    const { suggestions } = (await response.json()) as {
+      suggestions: ColumnSuggestion[];
+    };
+    return suggestions;
+  }
+
+  // Agreement raises the confidence; on disagreement the more confident
+  // suggestion wins at a lower confidence. Template mappings were chosen by a
+  // person and are kept, and a field already claimed by a more confident
+  // column keeps the heuristic suggestion.
+  private mergeSuggestions(
+    results: FieldDetectionResult[],
+    suggestions: ColumnSuggestion[],
+    referenceData: MappingReferenceData
+  ): FieldDetectionResult[] {
+    const merged = results.map((result) => {
+      const suggestion = suggestions.find(
+        ({ columnIndex }) => columnIndex === result.columnIndex
+      );
+      if (!suggestion || result.template) return result;
+
+      if (suggestion.field === result.suggestedField) {
+        // Chance that at least one of the two is right
+        const combined =
+          100 -
+          ((100 - result.confidence) * (100 - suggestion.confidence)) / 100;
+        return {
+          ...result,
+          confidence: Math.round(Math.min(combined, MAX_MERGED_CONFIDENCE)),
+        };
+      }
+
+      if (suggestion.confidence <= result.confidence) {
+        return {
+          ...result,
+          confidence: Math.max(result.confidence - DISAGREEMENT_PENALTY, 0),
+        };
+      }
+
+      const field = referenceData.contactFields.find(
+        ({ fieldName }) => fieldName === suggestion.field
+      );
+      return {
+        ...result,
+        suggestedField: suggestion.field,
+        confidence: Math.max(suggestion.confidence - DISAGREEMENT_PENALTY, 0),
+        dataType: field && !field.core ? field.type : result.dataType,
+        isCustomField: false,
+        customFieldConfig: undefined,
+      };
+    });
+
+    // Each field goes to its most confident column
+    const isField = (field: string) => !!field && field !== "new_custom_field";
+    const claimed = new Map<string, FieldDetectionResult>();
+    merged.forEach((result) => {
+      if (!isField(result.suggestedField)) return;
+      const current = claimed.get(result.suggestedField);
+      if (!current || result.confidence > current.confidence) {
+        claimed.set(result.suggestedField, result);
+      }
+    });
+
+    return merged
+      .map((result, index) =>
+        !isField(result.suggestedField) ||
+        claimed.get(result.suggestedField) === result
+          ? result
+          : results[index]
+      )
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+// The LLM provider is opt-in, since it sends sample rows to the model
+export function createDetectionProvider(idToken?: string): DetectionProvider {
+  return process.env.NEXT_PUBLIC_COLUMN_DETECTION_PROVIDER === "llm"
+    ? new LlmDetectionProvider(
+        LLM_DETECTION_ENDPOINT,
+        new HeuristicDetectionProvider(),
+        idToken
+      )
+    : new HeuristicDetectionProvider();
+}
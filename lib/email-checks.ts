@@ -0,0 +1,222 @@
+import { getEditDistance } from "./edit-distance";
+
+// Mailbox providers people often misspell. Provider names shorter than
+// MIN_FUZZY_NAME_LENGTH ("aol", "live") are only matched exactly, since short
+// company domains are too often a letter away from them.
+const COMMON_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "yahoo.co.uk",
+  "ymail.com",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "comcast.net",
+  "verizon.net",
+  "sbcglobal.net",
+  "att.net",
+  "btinternet.com",
+  "protonmail.com",
+  "proton.me",
+  "fastmail.com",
+  "zoho.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+  "mail.com",
+  "yandex.ru",
+];
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+// Real mailbox domains a letter or two away from a common one ("email.com"
+// and "gmail.com"), which are never taken for a typo
+const KNOWN_DOMAINS = new Set(
+  (
+    "email.com mail.ru inbox.ru list.ru bk.ru inbox.com gmx.net gmx.at " +
+    "gmx.ch t-online.de freenet.de orange.fr free.fr laposte.net " +
+    "wanadoo.fr sfr.fr libero.it virgilio.it hotmail.fr hotmail.de " +
+    "hotmail.it hotmail.es live.co.uk live.fr outlook.de outlook.fr " +
+    "yahoo.fr yahoo.de yahoo.es yahoo.it yahoo.ca yahoo.co.in yahoo.co.jp " +
+    "yahoo.com.au rocketmail.com aim.com rediffmail.com qq.com 163.com " +
+    "126.com naver.com daum.net hanmail.net seznam.cz wp.pl o2.pl " +
+    "interia.pl shaw.ca rogers.com sky.com virginmedia.com talktalk.net " +
+    "ntlworld.com bigpond.com optusnet.com.au xtra.co.nz cox.net " +
+    "charter.net earthlink.net juno.com tutanota.com pm.me zohomail.com " +
+    "uol.com.br bol.com.br terra.com.br"
+  ).split(" ")
+);
+
+// Misspelled top-level domains and what was meant
+const TLD_TYPOS: Record<string, string> = {
+  con: "com",
+  cmo: "com",
+  ocm: "com",
+  comm: "com",
+  vom: "com",
+  xom: "com",
+  cpm: "com",
+  cim: "com",
+  nte: "net",
+  ney: "net",
+  nett: "net",
+  ogr: "org",
+  orgg: "org",
+};
+
+// Throwaway inbox services. Subdomains are matched too.
+const DISPOSABLE_DOMAINS = new Set(
+  (
+    "mailinator.com guerrillamail.com guerrillamail.net guerrillamailblock.com " +
+    "sharklasers.com grr.la pokemail.net spam4.me 10minutemail.com " +
+    "10minutemail.net tempmail.com temp-mail.org temp-mail.io tempmailo.com " +
+    "tempail.com tempr.email tempinbox.com throwawaymail.com yopmail.com " +
+    "yopmail.fr yopmail.net trashmail.com trashmail.de trashmail.net " +
+    "getnada.com nada.email dispostable.com maildrop.cc mailnesia.com " +
+    "mintemail.com mohmal.com fakeinbox.com fakemail.net emailfake.com " +
+    "emailondeck.com spamgourmet.com mytemp.email discard.email " +
+    "burnermail.io mailcatch.com inboxkitten.com moakt.com getairmail.com " +
+    "harakirimail.com jetable.org mailpoof.com dropmail.me 1secmail.com " +
+    "1secmail.net minuteinbox.com mail.tm"
+  ).split(" ")
+);
+
+// Mailboxes of a team or function rather than a person
+const ROLE_ACCOUNTS = new Set(
+  (
+    "admin administrator info information sales support contact contactus " +
+    "hello help office team billing accounts accounting marketing enquiries " +
+    "inquiries noreply no-reply donotreply do-not-reply webmaster postmaster " +
+    "hostmaster abuse hr jobs careers press media service customerservice " +
+    "feedback privacy security legal orders reception"
+  ).split(" ")
+);
+
+// Providers that deliver "name+tag@" to "name@"
+const PLUS_ADDRESSING_DOMAINS = new Set([
+  "gmail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "fastmail.com",
+  "protonmail.com",
+  "proton.me",
+]);
+
+// Checks an email address against bundled lists, without any network
+// lookups. Kept free of Firebase imports so it can run inside the import
+// worker.
+export class EmailCheckService {
+  // The mailbox an address delivers to, for matching duplicates only: Gmail
+  // ignores dots, and plus-addressing providers ignore "+tag". The address
+  // is saved as written.
+  static normalizeForMatching(email: string): string {
+    const address = email.trim().toLowerCase();
+    const at = address.lastIndexOf("@");
+    if (at < 1) return address;
+
+    let local = address.slice(0, at);
+    let domain = address.slice(at + 1);
+    if (domain === "googlemail.com") domain = "gmail.com";
+    if (PLUS_ADDRESSING_DOMAINS.has(domain)) local = local.split("+")[0];
+    if (domain === "gmail.com") local = local.replace(/\./g, "");
+
+    return `${local}@${domain}`;
+  }
+
+  // The address with a misspelled provider or top-level domain corrected,
+  // or null when the domain looks right
+  static suggestCorrection(email: string): string | null {
+    const at = email.lastIndexOf("@");
+    if (at < 1) return null;
+    const local = email.slice(0, at);
+    const domain = email.slice(at + 1).toLowerCase();
+    const isKnown = (name: string) =>
+      COMMON_DOMAINS.includes(name) || KNOWN_DOMAINS.has(name);
+    if (isKnown(domain)) return null;
+
+    const tldStart = domain.lastIndexOf(".");
+    const tld = domain.slice(tldStart + 1);
+    const fixedDomain = TLD_TYPOS[tld]
+      ? `${domain.slice(0, tldStart)}.${TLD_TYPOS[tld]}`
+      : domain;
+    if (isKnown(fixedDomain)) return `${local}@${fixedDomain}`;
+
+    // The provider name ("gmial") is compared when the rest of the domain
+    // matches, and the rest ("co" for "com") when the name matches, so real
+    // country domains like "yahoo.co.in" aren't taken for typos
+    const [name, ...rest] = fixedDomain.split(".");
+    const suffix = rest.join(".");
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    COMMON_DOMAINS.forEach((common) => {
+      const [commonName, ...commonRest] = common.split(".");
+      const commonSuffix = commonRest.join(".");
+      let distance = Infinity;
+      let maxDistance = 1;
+      if (name === commonName) {
+        distance = getEditDistance(suffix, commonSuffix);
+      } else if (
+        suffix === commonSuffix &&
+        commonName.length >= MIN_FUZZY_NAME_LENGTH
+      ) {
+        distance = getEditDistance(name, commonName);
+        // Longer names allow two slips
+        maxDistance = commonName.length >= 7 ? 2 : 1;
+      }
+      if (distance <= maxDistance && distance < closestDistance) {
+        closest = common;
+        closestDistance = distance;
+      }
+    });
+
+    const suggestion = closest || fixedDomain;
+    return suggestion !== domain ? `${local}@${suggestion}` : null;
+  }
+
+  static isDisposable(email: string): boolean {
+    const domain = email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+    const parts = domain.split(".");
+    // "x.mailinator.com" is checked as "mailinator.com" too
+    return parts.some((_, i) =>
+      DISPOSABLE_DOMAINS.has(parts.slice(i).join("."))
+    );
+  }
+
+  static isRoleAccount(email: string): boolean {
+    const local = email.slice(0, email.lastIndexOf("@")).toLowerCase();
+    return ROLE_ACCOUNTS.has(local.split("+")[0]);
+  }
+
+  // Reasons to look at an address twice before importing it. None of them
+  // stop the row from being imported.
+  static getWarnings(email: string): string[] {
+    const warnings: string[] = [];
+
+    const suggestion = this.suggestCorrection(email);
+    if (suggestion) {
+      warnings.push(
+        `Email "${email}" may be misspelled. Did you mean "${suggestion}"?`
+      );
+    }
+    if (this.isDisposable(email)) {
+      warnings.push(`Email "${email}" is a disposable address`);
+    }
+    if (this.isRoleAccount(email)) {
+      const role = email.slice(0, email.lastIndexOf("@")).split("+")[0];
+      warnings.push(`Email "${email}" is a shared mailbox (${role}@)`);
+    }
+
+    return warnings;
+  }
+}
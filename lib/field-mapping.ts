@@ -1,5 +1,19 @@
-import { ContactField, User } from "../types/firestore";
-import { userService } from "./collections";
+import {
+  ContactField,
+  FieldSynonym,
+  MappingTemplate,
+  TemplateColumnMapping,
+  User,
+  PhoneFormat,
+  ValueTransform,
+} from "../types/firestore";
+import { PresetColumn, SOURCE_PRESETS, SourcePreset } from "./source-presets";
+import { ColumnClassifier } from "./column-classifier";
+import {
+  NameSplitConfig,
+  NameSplitService,
+  SPLIT_NAME_FIELD,
+} from "./name-splitting";
 
 // Field mapping patterns for intelligent detection
 const FIELD_PATTERNS = {
@@ -53,6 +67,8 @@ const DATA_PATTERNS = {
 };
 
 export interface FieldDetectionResult {
+  // Position of the column in ParsedFileData.headers and in every row
+  columnIndex: number;
   columnName: string;
   suggestedField: string;
   confidence: number;
@@ -60,24 +76,105 @@ export interface FieldDetectionResult {
   sampleData: string[];
   isCustomField: boolean;
   customFieldConfig?: Partial<ContactField>;
+  // Saved template the mapping was taken from
+  template?: { id: string; name: string };
+  // Where the parts of a name go when suggestedField is SPLIT_NAME_FIELD
+  nameSplit?: NameSplitConfig;
+  // Builds the value from several columns, e.g. "{Street}, {City} {Zip}",
+  // instead of taking this column's value
+  combineTemplate?: string;
+  // Cleanup applied to each value before validation, in order
+  transforms?: ValueTransform[];
+  // Country numbers are read for when suggestedField is "phone"
+  phoneFormat?: PhoneFormat;
 }
 
+// Suggested mapping for a single column
+interface FieldDetection {
+  field: string;
+  confidence: number;
+  dataType: string;
+  isCustomField: boolean;
+  customFieldConfig?: Partial<ContactField>;
+  nameSplit?: NameSplitConfig;
+  combineTemplate?: string;
+  transforms?: ValueTransform[];
+  phoneFormat?: PhoneFormat;
+}
+
+// Headers of a column holding whole names ("Full Name", "Contact Name")
+const FULL_NAME_HEADER =
+  /^((full|contact|customer|client|display)[\s_-]?)?name$/i;
+const FULL_NAME_CONFIDENCE = 80;
+
+// Confidence given to columns mapped by a recognized export format
+const PRESET_CONFIDENCE = 98;
+const PRESET_SECONDARY_CONFIDENCE = 90;
+// Columns mapped by a saved template were chosen by a person
+const TEMPLATE_CONFIDENCE = 100;
+// Share of headers a file must have in common with a template to use it
+const TEMPLATE_MATCH_THRESHOLD = 0.8;
+// Confidence for a header users have corrected to a field once; each further
+// correction adds LEARNED_CONFIDENCE_STEP up to LEARNED_CONFIDENCE_MAX
+const LEARNED_CONFIDENCE = 85;
+const LEARNED_CONFIDENCE_STEP = 5;
+const LEARNED_CONFIDENCE_MAX = 98;
+
+// Firestore data the detection matches columns against
+export interface MappingReferenceData {
+  contactFields: ContactField[];
+  users: User[];
+  templates: MappingTemplate[];
+  synonyms: FieldSynonym[];
+}
+
+// Firestore is only imported lazily, so this module can also run inside the
+// import worker when the reference data is passed in
 export class FieldMappingService {
   private contactFields: ContactField[] = [];
   private users: User[] = [];
-
-  constructor() {
-    this.loadData();
+  private templates: MappingTemplate[] = [];
+  private synonyms: FieldSynonym[] = [];
+
+  constructor(referenceData?: MappingReferenceData) {
+    if (referenceData) {
+      this.contactFields = referenceData.contactFields;
+      this.users = referenceData.users;
+      this.templates = referenceData.templates;
+      this.synonyms = referenceData.synonyms;
+    } else {
+      this.loadData();
+    }
   }
 
   private async loadData() {
+    const { contactFields, users, templates, synonyms } =
+      await FieldMappingService.loadReferenceData();
+    this.contactFields = contactFields;
+    this.users = users;
+    this.templates = templates;
+    this.synonyms = synonyms;
+  }
+
+  // Load contact fields, users, saved templates and learned synonyms for
+  // mapping
+  static async loadReferenceData(): Promise<MappingReferenceData> {
     try {
-      // Load contact fields and users for mapping
-      const { contactFieldService } = await import("./collections");
-      this.contactFields = await contactFieldService.getFields();
-      this.users = await userService.getUsers();
+      const {
+        contactFieldService,
+        userService,
+        mappingTemplateService,
+        fieldSynonymService,
+      } = await import("./collections");
+      return {
+        contactFields: await contactFieldService.getFields(),
+        users: await userService.getUsers(),
+        templates: await mappingTemplateService.getTemplates(),
+        synonyms: await fieldSynonymService.getSynonyms(),
+      };
     } catch (error) {
       console.error("Failed to load data for field mapping:", error);
+      return { contactFields: [], users: [], templates: [], synonyms: [] };
     }
   }
 
@@ -88,14 +185,41 @@ export class FieldMappingService {
   ): Promise<FieldDetectionResult[]> {
     const results: FieldDetectionResult[] = [];
 
+    // A saved template for these headers wins, then the curated mapping of
+    // a known export format. Columns with meaningless headers are classified
+    // by their values. Other columns are detected as usual but can't take a
+    // field the template or preset already mapped.
+    const template = FieldMappingService.findTemplate(headers, this.templates);
+    const templateDetections = template
+      ? this.applyTemplate(template, headers)
+      : new Map<number, FieldDetection>();
+    const preset = FieldMappingService.detectPreset(headers);
+    const presetDetections = new Map([
+      ...(preset ? this.applyPreset(preset, headers, sampleData) : []),
+      ...templateDetections,
+    ]);
+    const presetFields = new Set(
+      Array.from(presetDetections.values())
+        .filter((detection) => !detection.isCustomField && detection.field)
+        .map((detection) => detection.field)
+    );
+    const contentDetections = this.classifyByContent(headers, sampleData);
+
     for (let i = 0; i < headers.length; i++) {
       const header = headers[i];
       const columnData = sampleData
         .map((row) => row[i])
         .filter((val) => val && val.toString().trim());
 
-      const detection = await this.detectField(header, columnData);
+      let detection =
+        presetDetections.get(i) ||
+        contentDetections.get(i) ||
+        (await this.detectField(header, columnData));
+      if (!presetDetections.has(i) && presetFields.has(detection.field)) {
+        detection = this.suggestCustomField(header, columnData);
+      }
       results.push({
+        columnIndex: i,
         columnName: header,
         suggestedField: detection.field,
         confidence: detection.confidence,
@@ -103,25 +227,299 @@ export class FieldMappingService {
         sampleData: columnData.slice(0, 5), // First 5 sample values
         isCustomField: detection.isCustomField,
         customFieldConfig: detection.customFieldConfig,
+        nameSplit: detection.nameSplit,
+        combineTemplate: detection.combineTemplate,
+        transforms: detection.transforms,
+        phoneFormat: detection.phoneFormat,
+        template:
+          template?.id && templateDetections.has(i)
+            ? { id: template.id, name: template.name }
+            : undefined,
+      });
+    }
+
+    // A whole name column is only split when no other column has the first
+    // or last name
+    const mappedFields = new Set(
+      results.map((result) => result.suggestedField)
+    );
+    if (mappedFields.has("firstName") || mappedFields.has("lastName")) {
+      results.forEach((result, index) => {
+        if (result.suggestedField !== SPLIT_NAME_FIELD) return;
+        const detection = this.suggestCustomField(
+          result.columnName,
+          result.sampleData
+        );
+        results[index] = {
+          ...result,
+          suggestedField: detection.field,
+          confidence: detection.confidence,
+          dataType: detection.dataType,
+          isCustomField: detection.isCustomField,
+          customFieldConfig: detection.customFieldConfig,
+        };
       });
     }
 
     return results.sort((a, b) => b.confidence - a.confidence);
   }
 
+  // Headers as a template stores them: lowercased, unique and sorted
+  static getHeaderFingerprint(headers: string[]): string[] {
+    return Array.from(
+      new Set(headers.map((header) => header.toLowerCase().trim()))
+    ).sort();
+  }
+
+  // The template sharing the most headers with the file, if it shares enough.
+  // Templates are expected most recent first, which wins ties.
+  static findTemplate(
+    headers: string[],
+    templates: MappingTemplate[]
+  ): MappingTemplate | null {
+    const fingerprint = new Set(this.getHeaderFingerprint(headers));
+    let best: MappingTemplate | null = null;
+    let bestScore = 0;
+
+    templates.forEach((template) => {
+      const shared = template.headers.filter((header) =>
+        fingerprint.has(header)
+      ).length;
+      const union = fingerprint.size + template.headers.length - shared;
+      const score = union > 0 ? shared / union : 0;
+      if (score >= TEMPLATE_MATCH_THRESHOLD && score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    });
+
+    return best;
+  }
+
+  // Column mappings to save in a template, without sample data or positions.
+  // Firestore rejects undefined values, so optional fields are left out.
+  static toTemplateMappings(
+    mappings: FieldDetectionResult[]
+  ): TemplateColumnMapping[] {
+    return mappings.map((mapping) => ({
+      columnName: mapping.columnName,
+      suggestedField: mapping.suggestedField,
+      dataType: mapping.dataType,
+      isCustomField: mapping.isCustomField,
+      ...(mapping.customFieldConfig && {
+        customFieldConfig: Object.fromEntries(
+          Object.entries(mapping.customFieldConfig).filter(
+            ([, value]) => value !== undefined
+          )
+        ),
+      }),
+      ...(mapping.suggestedField === SPLIT_NAME_FIELD &&
+        mapping.nameSplit && {
+          nameSplit: Object.fromEntries(
+            Object.entries(mapping.nameSplit).filter(([, value]) => value)
+          ),
+        }),
+      ...(mapping.combineTemplate && {
+        combineTemplate: mapping.combineTemplate,
+      }),
+      ...(mapping.transforms?.length && { transforms: mapping.transforms }),
+      ...(mapping.suggestedField === "phone" &&
+        mapping.phoneFormat && {
+          phoneFormat: Object.fromEntries(
+            Object.entries(mapping.phoneFormat).filter(([, value]) => value)
+          ),
+        }),
+    }));
+  }
+
+  // Mappings from a saved template, keyed by column position. Columns mapped
+  // to a field that has since been deleted are detected again.
+  private applyTemplate(
+    template: MappingTemplate,
+    headers: string[]
+  ): Map<number, FieldDetection> {
+    const detections = new Map<number, FieldDetection>();
+    const knownFields = new Set(
+      this.contactFields.map((field) => field.fieldName)
+    );
+
+    headers.forEach((header, index) => {
+      const mapping = template.mappings.find(
+        ({ columnName }) =>
+          columnName.toLowerCase().trim() === header.toLowerCase().trim()
+      );
+      if (!mapping) return;
+
+      const fieldExists =
+        !mapping.suggestedField ||
+        mapping.suggestedField === "new_custom_field" ||
+        mapping.suggestedField === SPLIT_NAME_FIELD ||
+        knownFields.size === 0 ||
+        knownFields.has(mapping.suggestedField);
+      if (!fieldExists) return;
+
+      detections.set(index, {
+        field: mapping.suggestedField,
+        confidence: TEMPLATE_CONFIDENCE,
+        dataType: mapping.dataType,
+        isCustomField: mapping.isCustomField,
+        customFieldConfig: mapping.customFieldConfig,
+        nameSplit: mapping.nameSplit,
+        combineTemplate: mapping.combineTemplate,
+        transforms: mapping.transforms,
+        phoneFormat: mapping.phoneFormat,
+      });
+    });
+
+    return detections;
+  }
+
+  // Export format of a known contacts app, recognized by its headers
+  static detectPreset(headers: string[]): SourcePreset | null {
+    const normalized = new Set(
+      headers.map((header) => header.toLowerCase().trim())
+    );
+    return SOURCE_PRESETS.find((preset) => preset.matches(normalized)) || null;
+  }
+
+  // Curated mapping for a recognized export, keyed by column position. The
+  // primary email and phone columns map to the core fields; the other
+  // numbered ones are suggested as custom fields.
+  private applyPreset(
+    preset: SourcePreset,
+    headers: string[],
+    sampleData: string[][]
+  ): Map<number, FieldDetection> {
+    const detections = new Map<number, FieldDetection>();
+
+    headers.forEach((header, index) => {
+      const field = preset.fields[header.toLowerCase().trim()];
+      if (field) {
+        detections.set(index, {
+          field,
+          confidence: PRESET_CONFIDENCE,
+          dataType: "text",
+          isCustomField: false,
+        });
+      }
+    });
+
+    const candidateGroups: [string, PresetColumn[]][] = [
+      ["email", preset.getEmailColumns(headers)],
+      ["phone", preset.getPhoneColumns(headers)],
+    ];
+    candidateGroups.forEach(([field, candidates]) => {
+      const primary = this.pickPrimaryColumn(candidates, sampleData);
+      candidates.forEach(({ index }) => {
+        if (index === primary) {
+          detections.set(index, {
+            field,
+            confidence: PRESET_CONFIDENCE,
+            dataType: field,
+            isCustomField: false,
+          });
+          return;
+        }
+
+        const label = headers[index]
+          .replace(/\s*-\s*value$/i, "")
+          .replace(/\s+address$/i, "")
+          .replace(/^e-mail/i, "Email");
+        detections.set(index, {
+          field: "new_custom_field",
+          confidence: PRESET_SECONDARY_CONFIDENCE,
+          dataType: field,
+          isCustomField: true,
+          customFieldConfig: {
+            label: FieldMappingService.formatFieldLabel(label),
+            fieldName: FieldMappingService.generateFieldName(label),
+            type: field as "email" | "phone",
+            core: false,
+          },
+        });
+      });
+    });
+
+    return detections;
+  }
+
+  // The column most often marked primary ("* Work" in Google exports), then
+  // the one filled in most often, then the earliest
+  private pickPrimaryColumn(
+    candidates: PresetColumn[],
+    sampleData: string[][]
+  ): number | undefined {
+    let best: { index: number; marked: number; filled: number } | undefined;
+
+    candidates.forEach(({ index, labelIndex }) => {
+      const filled = sampleData.filter((row) => row[index]?.trim()).length;
+      const marked =
+        labelIndex === undefined
+          ? 0
+          : sampleData.filter(
+              (row) => row[index]?.trim() && row[labelIndex]?.trim()[0] === "*"
+            ).length;
+      if (
+        !best ||
+        marked > best.marked ||
+        (marked === best.marked && filled > best.filled)
+      ) {
+        best = { index, marked, filled };
+      }
+    });
+
+    return best?.index;
+  }
+
+  // Mappings from the values alone for columns whose header says nothing
+  // ("Column 3") or is itself a value, as in a file without a header row
+  private classifyByContent(
+    headers: string[],
+    sampleData: string[][]
+  ): Map<number, FieldDetection> {
+    const detections = new Map<number, FieldDetection>();
+
+    ColumnClassifier.classifyColumns(sampleData, headers.length).forEach(
+      ({ field, confidence }, index) => {
+        const header = headers[index];
+        if (
+          !ColumnClassifier.isGenericHeader(header) &&
+          !ColumnClassifier.matchesField(header, field)
+        ) {
+          return;
+        }
+
+        const columnData = sampleData
+          .map((row) => row[index])
+          .filter((val) => val && val.toString().trim());
+        // Left to detectField, which maps emails of known users to agents
+        if (field === "email" && this.isAgentEmail(columnData)) return;
+
+        detections.set(index, {
+          field,
+          confidence,
+          dataType: field === "email" || field === "phone" ? field : "text",
+          isCustomField: false,
+        });
+      }
+    );
+
+    return detections;
+  }
+
   // Detect what field a column should map to
   private async detectField(
     header: string,
     sampleData: string[]
-  ): Promise<{
-    field: string;
-    confidence: number;
-    dataType: string;
-    isCustomField: boolean;
-    customFieldConfig?: Partial<ContactField>;
-  }> {
+  ): Promise<FieldDetection> {
     const normalizedHeader = header.toLowerCase().trim();
 
+    // Headers users have corrected by hand before
+    const learnedMatch = this.matchSynonym(header, sampleData);
+    if (learnedMatch) {
+      return learnedMatch;
+    }
+
     // Check against core field patterns
     for (const [fieldName, config] of Object.entries(FIELD_PATTERNS)) {
       const keywordMatch = config.keywords.some((keyword) =>
@@ -149,6 +547,19 @@ export class FieldMappingService {
       }
     }
 
+    // Whole names are split into first and last name
+    if (
+      FULL_NAME_HEADER.test(normalizedHeader) &&
+      NameSplitService.looksLikeFullNames(sampleData)
+    ) {
+      return {
+        field: SPLIT_NAME_FIELD,
+        confidence: FULL_NAME_CONFIDENCE,
+        dataType: "text",
+        isCustomField: false,
+      };
+    }
+
     // Check for agent email mapping
     if (this.isAgentEmail(sampleData)) {
       return {
@@ -165,15 +576,22 @@ export class FieldMappingService {
       return customFieldMatch;
     }
 
-    // Suggest creating a new custom field
+    return this.suggestCustomField(header, sampleData);
+  }
+
+  // Suggest creating a new custom field
+  private suggestCustomField(
+    header: string,
+    sampleData: string[]
+  ): FieldDetection {
     return {
       field: "new_custom_field",
       confidence: 30,
       dataType: this.detectDataType(sampleData),
       isCustomField: true,
       customFieldConfig: {
-        label: this.formatFieldLabel(header),
-        fieldName: this.generateFieldName(header),
+        label: FieldMappingService.formatFieldLabel(header),
+        fieldName: FieldMappingService.generateFieldName(header),
         type: this.suggestFieldType(sampleData),
         core: false,
       },
@@ -311,6 +729,61 @@ export class FieldMappingService {
     );
   }
 
+  // Header as stored in the synonym dictionary
+  static normalizeHeader(header: string): string {
+    return header.toLowerCase().trim().replace(/\s+/g, " ");
+  }
+
+  // The field users most often corrected this header to. Confidence grows
+  // with every correction but drops when the data doesn't look right.
+  private matchSynonym(
+    header: string,
+    sampleData: string[]
+  ): FieldDetection | null {
+    const normalizedHeader = FieldMappingService.normalizeHeader(header);
+    const synonym = this.synonyms.find(
+      (synonym) => synonym.header === normalizedHeader
+    );
+    if (!synonym) return null;
+
+    const knownFields = new Set(
+      this.contactFields.map((field) => field.fieldName)
+    );
+    const [field, count] =
+      Object.entries(synonym.fields)
+        .filter(
+          ([fieldName, count]) =>
+            count > 0 &&
+            (knownFields.size === 0 ||
+              knownFields.has(fieldName) ||
+              fieldName === SPLIT_NAME_FIELD)
+        )
+        .sort((a, b) => b[1] - a[1])[0] || [];
+    if (!field || !count) return null;
+
+    let confidence = Math.min(
+      LEARNED_CONFIDENCE + (count - 1) * LEARNED_CONFIDENCE_STEP,
+      LEARNED_CONFIDENCE_MAX
+    );
+    if (
+      (field === "email" || field === "phone") &&
+      sampleData.length > 0 &&
+      this.getDataPatternScore(sampleData, field) < 50
+    ) {
+      confidence -= 25;
+    }
+
+    const customField = this.contactFields.find(
+      (contactField) => contactField.fieldName === field && !contactField.core
+    );
+    return {
+      field,
+      confidence,
+      dataType: customField?.type || this.detectDataType(sampleData),
+      isCustomField: false,
+    };
+  }
+
   // Match against existing custom fields
   private matchCustomField(header: string): {
     field: string;
@@ -341,7 +814,7 @@ export class FieldMappingService {
   }
 
   // Format field label for display
-  private formatFieldLabel(header: string): string {
+  static formatFieldLabel(header: string): string {
     return header
       .split(/[\s\-_]/)
       .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
@@ -349,7 +822,7 @@ export class FieldMappingService {
   }
 
   // Generate field name from header
-  private generateFieldName(header: string): string {
+  static generateFieldName(header: string): string {
     return header
       .toLowerCase()
       .replace(/[^a-z0-9\s]/g, "")
@@ -382,10 +855,67 @@ export class FieldMappingService {
 
   // Map agent email to UID
   async mapAgentEmail(email: string): Promise<string | null> {
+    const { userService } = await import("./collections");
     const user = await userService.getUserByEmail(email);
     return user?.uid || null;
   }
 
+  // Score how much a row looks like a header row. Cells naming a known field
+  // count most, other text counts a little and cells that look like data
+  // (emails, phone numbers, dates, numbers) count against it.
+  static scoreHeaderRow(row: string[]): number {
+    const cells = row
+      .map((cell) => (cell || "").toString().trim())
+      .filter((cell) => cell.length > 0);
+    if (cells.length === 0) return 0;
+
+    let score = 0;
+    cells.forEach((cell) => {
+      const looksLikeData =
+        DATA_PATTERNS.email.test(cell) ||
+        DATA_PATTERNS.phone.test(cell.replace(/[\s\-\(\)]/g, "")) ||
+        DATA_PATTERNS.date.test(cell) ||
+        DATA_PATTERNS.number.test(cell) ||
+        DATA_PATTERNS.url.test(cell);
+      if (looksLikeData) {
+        score -= 2;
+        return;
+      }
+
+      const normalized = cell.toLowerCase();
+      const namesField = Object.values(FIELD_PATTERNS).some(
+        (config) =>
+          config.keywords.some((keyword) => normalized.includes(keyword)) ||
+          config.patterns.some((pattern) => pattern.test(normalized))
+      );
+      score += namesField ? 3 : 1;
+    });
+
+    // Header cells are distinct from each other
+    const distinct = new Set(cells.map((cell) => cell.toLowerCase()));
+    if (distinct.size === cells.length) {
+      score += 1;
+    }
+
+    return score;
+  }
+
+  // Index of the most header-like row, preferring the earliest on ties
+  static detectHeaderRow(rows: string[][]): number {
+    let bestIndex = 0;
+    let bestScore = 0;
+
+    rows.forEach((row, index) => {
+      const score = this.scoreHeaderRow(row);
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+
+    return bestIndex;
+  }
+
   // Get confidence color class
   static getConfidenceColor(confidence: number): string {
     if (confidence >= 90) return "text-green-600 bg-green-50";
@@ -1,5 +1,10 @@
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
+import { FieldMappingService } from "./field-mapping";
+import { ColumnClassifier } from "./column-classifier";
+import { CsvFormat, CsvFormatService } from "./csv-format";
+import { VCardService } from "./vcard";
+import { JsonRecordService } from "./json-records";
 
 export interface ParsedFileData {
   headers: string[];
@@ -7,15 +12,75 @@ export interface ParsedFileData {
   totalRows: number;
   fileName: string;
   fileSize: number;
-  fileType: "csv" | "xlsx";
+  fileType: "csv" | "xlsx" | "vcf" | "json";
+  // True when maxRows cut the file short and the full file must be streamed
+  truncated?: boolean;
+  // Worksheets the rows were read from (Excel only)
+  sheetNames?: string[];
+  // Position of the header row among the rows read; rows above it are
+  // skipped. NO_HEADER_ROW when every row is data.
+  headerRowIndex?: number;
+  // 1-based number of each row in the file, counting the blank rows that
+  // were skipped and the rows above the header (CSV only)
+  rowNumbers?: number[];
+  // First rows of the file as read, for choosing the header row. Not set
+  // for vCard and JSON files, whose columns are built from property names.
+  topRows?: string[][];
+  // Encoding, delimiter and quote character the CSV was read with
+  csvFormat?: CsvFormat;
+}
+
+export interface ExcelSheetInfo {
+  name: string;
+  headers: string[];
+  rowCount: number;
 }
 
 export interface ProcessingOptions {
   maxRows?: number;
   skipEmptyRows?: boolean;
   trimWhitespace?: boolean;
+  // Excel worksheets to read; defaults to the first sheet
+  sheetNames?: string[];
+  // Index of the header row, or NO_HEADER_ROW; detected from the top rows
+  // when not set
+  headerRow?: number;
+  // CSV format settings to use instead of the detected ones
+  csvFormat?: Partial<CsvFormat>;
 }
 
+export interface StreamProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  rowsProcessed: number;
+}
+
+export interface StreamOptions extends ProcessingOptions {
+  // Bytes read from the file per chunk
+  chunkSize?: number;
+  // rowNumbers holds the 1-based number of each row in the file
+  onRows: (
+    rows: string[][],
+    progress: StreamProgress,
+    rowNumbers: number[]
+  ) => Promise<void> | void;
+}
+
+// Excel workbooks, vCard and JSON files are loaded into memory in one piece
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// CSV files are streamed, so only the rows in flight are held in memory
+export const MAX_STREAMING_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+const DEFAULT_STREAM_CHUNK_SIZE = 1024 * 1024; // 1MB
+
+// Rows searched for the header row
+export const HEADER_SCAN_ROWS = 20;
+// Header row index of a file whose first row is already data. Its columns
+// are named "Column 1", "Column 2", ...
+export const NO_HEADER_ROW = -1;
+
+// Synthetic column naming the worksheet each row came from when sheets are combined
+export const SHEET_COLUMN = "Sheet";
+
 export class FileProcessingService {
   // Parse CSV file
   static async parseCSV(
@@ -23,10 +88,18 @@ export class FileProcessingService {
     options: ProcessingOptions = {}
   ): Promise<ParsedFileData> {
     console.log("Starting CSV parsing with options:", options);
+    const csvFormat = await this.resolveCsvFormat(file, options);
+
     return new Promise((resolve, reject) => {
-      const config: Papa.ParseConfig = {
+      const config: Papa.ParseLocalConfig<string[], File> = {
         header: false,
-        skipEmptyLines: options.skipEmptyRows ?? true,
+        // Blank lines are skipped below, once their rows are numbered
+        skipEmptyLines: false,
+        encoding: csvFormat.encoding,
+        delimiter: csvFormat.delimiter,
+        quoteChar: csvFormat.quoteChar,
+        // Only read as far as needed; one extra row tells us it was truncated
+        preview: options.maxRows ? options.maxRows + HEADER_SCAN_ROWS + 2 : 0,
         complete: (results) => {
           console.log("CSV parsing complete, results:", {
             dataLength: results.data.length,
@@ -46,7 +119,11 @@ export class FileProcessingService {
             return;
           }
 
-          const rows = results.data as string[][];
+          const { rows, rowNumbers } = this.numberRows(
+            results.data as string[][],
+            1,
+            options.skipEmptyRows ?? true
+          );
           console.log("Parsed rows count:", rows.length);
 
           if (rows.length === 0) {
@@ -55,8 +132,16 @@ export class FileProcessingService {
             return;
           }
 
-          const headers = rows[0];
-          const dataRows = rows.slice(1);
+          const headerRowIndex = this.getHeaderRowIndex(rows, options);
+          if (headerRowIndex >= rows.length) {
+            reject(
+              new Error(`Row ${headerRowIndex + 1} is past the end of the file`)
+            );
+            return;
+          }
+
+          const headers = this.getHeaderRow(rows, headerRowIndex);
+          const dataRows = rows.slice(headerRowIndex + 1);
           console.log("Headers:", headers);
           console.log("Data rows count:", dataRows.length);
 
@@ -80,6 +165,16 @@ export class FileProcessingService {
             fileName: file.name,
             fileSize: file.size,
             fileType: "csv" as const,
+            // Blank lines count towards Papa's preview, so also trust its flag
+            truncated:
+              limitedRows.length < dataRows.length || !!results.meta.truncated,
+            headerRowIndex,
+            rowNumbers: rowNumbers.slice(
+              headerRowIndex + 1,
+              headerRowIndex + 1 + limitedRows.length
+            ),
+            topRows: rows.slice(0, HEADER_SCAN_ROWS),
+            csvFormat,
           };
 
           console.log("CSV parsing result:", result);
@@ -88,77 +183,302 @@ export class FileProcessingService {
       };
 
       console.log("Starting Papa.parse...");
-      (Papa.parse as unknown as (file: File, config: Papa.ParseConfig) => void)(
-        file,
-        config
-      );
+      Papa.parse(file, config);
     });
   }
 
-  // Parse Excel file
+  // Stream a CSV file chunk by chunk. Each chunk's bytes go through one
+  // streaming TextDecoder, so a character split between two chunks is kept
+  // whole, and a row cut off at the end of a chunk is parsed with the next.
+  // The next chunk is only read once onRows has handled the rows before it.
+  static async streamCSV(
+    file: File,
+    options: StreamOptions
+  ): Promise<{ headers: string[]; totalRows: number }> {
+    const chunkSize = options.chunkSize || DEFAULT_STREAM_CHUNK_SIZE;
+    const csvFormat = await this.resolveCsvFormat(file, options);
+    const decoder = new TextDecoder(csvFormat.encoding);
+
+    let headers: string[] | null = null;
+    let partialRow = "";
+    let newline: Papa.ParseConfig["newline"];
+    let rowsProcessed = 0;
+    // Rows parsed so far, blank ones included, for numbering rows
+    let rowsRead = 0;
+
+    for (let offset = 0; offset < file.size; offset += chunkSize) {
+      const isLastChunk = offset + chunkSize >= file.size;
+      const bytes = await file.slice(offset, offset + chunkSize).arrayBuffer();
+      const text = partialRow + decoder.decode(bytes, { stream: !isLastChunk });
+      // Quotes and a "\r" at the very end can't be read until the next
+      // character is known, so they wait for the next chunk
+      let end = text.length;
+      while (
+        !isLastChunk &&
+        end > 0 &&
+        (text[end - 1] === csvFormat.quoteChar || text[end - 1] === "\r")
+      ) {
+        end--;
+      }
+      newline = newline || this.guessNewline(text.slice(0, end));
+      if (!newline && !isLastChunk) {
+        partialRow = text;
+        continue;
+      }
+
+      const results = new Papa.Parser({
+        delimiter: csvFormat.delimiter,
+        quoteChar: csvFormat.quoteChar,
+        newline,
+      }).parse(text.slice(0, end), 0, !isLastChunk) as Papa.ParseResult<
+        string[]
+      >;
+      if (results.errors.length > 0) {
+        throw new Error(
+          `CSV parsing errors: ${results.errors
+            .map((e) => e.message)
+            .join(", ")}`
+        );
+      }
+      partialRow = isLastChunk ? "" : text.slice(results.meta.cursor);
+
+      let { rows, rowNumbers } = this.numberRows(
+        results.data,
+        rowsRead + 1,
+        options.skipEmptyRows ?? true
+      );
+      rowsRead += results.data.length;
+      if (!headers) {
+        if (rows.length === 0) continue;
+        // The first rows read are assumed to reach past the header row
+        const headerRowIndex = this.getHeaderRowIndex(rows, options);
+        if (headerRowIndex >= rows.length) {
+          throw new Error("No headers found in CSV file");
+        }
+        headers = this.cleanHeaders(
+          this.getHeaderRow(rows, headerRowIndex),
+          options.trimWhitespace
+        );
+        rows = rows.slice(headerRowIndex + 1);
+        rowNumbers = rowNumbers.slice(headerRowIndex + 1);
+      }
+
+      if (options.maxRows && rowsProcessed + rows.length > options.maxRows) {
+        rows = rows.slice(0, options.maxRows - rowsProcessed);
+        rowNumbers = rowNumbers.slice(0, rows.length);
+      }
+      rowsProcessed += rows.length;
+
+      await options.onRows(
+        rows,
+        {
+          bytesProcessed: Math.min(offset + chunkSize, file.size),
+          totalBytes: file.size,
+          rowsProcessed,
+        },
+        rowNumbers
+      );
+      if (options.maxRows && rowsProcessed >= options.maxRows) break;
+    }
+
+    if (!headers) {
+      throw new Error("File is empty");
+    }
+    return { headers, totalRows: rowsProcessed };
+  }
+
+  // Parse Excel file. Several sheets can be read at once; their rows are
+  // combined under the union of their headers with a synthetic Sheet column.
   static async parseExcel(
     file: File,
     options: ProcessingOptions = {}
   ): Promise<ParsedFileData> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
+    const workbook = await this.readWorkbook(file);
 
-      reader.onload = (e) => {
-        try {
-          const data = new Uint8Array(e.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: "array" });
+    const sheetNames = options.sheetNames?.length
+      ? options.sheetNames
+      : workbook.SheetNames.slice(0, 1);
+    if (sheetNames.length === 0) {
+      throw new Error("No worksheets found in Excel file");
+    }
 
-          // Get the first worksheet
-          const sheetName = workbook.SheetNames[0];
-          if (!sheetName) {
-            reject(new Error("No worksheets found in Excel file"));
-            return;
-          }
+    const sheets = sheetNames.map((sheetName, sheetIndex) => {
+      const worksheet = workbook.Sheets[sheetName];
+      if (!worksheet) {
+        throw new Error(`Worksheet "${sheetName}" not found in Excel file`);
+      }
+      // Each sheet gets its own header row, so preambles can differ. A chosen
+      // header row was picked on the first sheet, so only that sheet uses it.
+      const rows = this.sheetToRows(worksheet);
+      const headerRowIndex = this.getHeaderRowIndex(
+        rows,
+        sheetIndex === 0 ? options : { ...options, headerRow: undefined }
+      );
+      const headerRow = this.getHeaderRow(rows, headerRowIndex);
+      return {
+        sheetName,
+        rows,
+        headerRowIndex,
+        headerRow,
+        headers: this.cleanHeaders(headerRow, options.trimWhitespace),
+        dataRows: rows.slice(headerRowIndex + 1),
+      };
+    });
 
-          const worksheet = workbook.Sheets[sheetName];
+    if (sheets.every(({ rows }) => rows.length === 0)) {
+      throw new Error("Excel file is empty");
+    }
 
-          // Convert to array of arrays
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-            header: 1,
-          }) as unknown[][];
+    let headers: string[];
+    let stringRows: string[][];
 
-          if (jsonData.length === 0) {
-            reject(new Error("Excel file is empty"));
-            return;
-          }
+    if (sheets.length === 1) {
+      const { headerRow, dataRows } = sheets[0];
 
-          const headers = jsonData[0];
-          const dataRows = jsonData.slice(1);
+      // Validate headers
+      if (headerRow.length === 0) {
+        throw new Error("No headers found in Excel file");
+      }
 
-          // Validate headers
-          if (!headers || headers.length === 0) {
-            reject(new Error("No headers found in Excel file"));
-            return;
+      headers = sheets[0].headers;
+      stringRows = dataRows;
+    } else {
+      // Union of every sheet's headers, in order of first appearance.
+      // Headers match regardless of case, as in areHeadersCompatible.
+      headers = [];
+      const headerKeys: string[] = [];
+      sheets.forEach((sheet) => {
+        sheet.headers.forEach((header) => {
+          if (!headerKeys.includes(header.toLowerCase())) {
+            headers.push(header);
+            headerKeys.push(header.toLowerCase());
           }
+        });
+      });
 
-          // Convert all data to strings and clean
-          const stringHeaders = this.cleanHeaders(
-            headers.map((h) => h?.toString() || ""),
-            options.trimWhitespace
-          );
+      if (headers.length === 0) {
+        throw new Error("No headers found in Excel file");
+      }
 
-          const stringRows = dataRows.map((row) =>
-            row.map((cell) => cell?.toString() || "")
-          );
+      stringRows = sheets.flatMap((sheet) => {
+        const { sheetName, dataRows } = sheet;
+        const sheetKeys = sheet.headers.map((header) => header.toLowerCase());
+        const sourceIndexes = headerKeys.map((key) => sheetKeys.indexOf(key));
+        return dataRows.map((row) => [
+          ...sourceIndexes.map((index) => (index >= 0 ? row[index] || "" : "")),
+          sheetName,
+        ]);
+      });
+
+      headers.push(this.getSheetColumnName(headers));
+    }
 
-          // Limit rows if specified
-          const limitedRows = options.maxRows
-            ? stringRows.slice(0, options.maxRows)
-            : stringRows;
+    // Limit rows if specified
+    const limitedRows = options.maxRows
+      ? stringRows.slice(0, options.maxRows)
+      : stringRows;
 
-          resolve({
-            headers: stringHeaders,
-            rows: limitedRows,
-            totalRows: limitedRows.length,
-            fileName: file.name,
-            fileSize: file.size,
-            fileType: "xlsx",
-          });
+    return {
+      headers,
+      rows: limitedRows,
+      totalRows: limitedRows.length,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: "xlsx",
+      truncated: limitedRows.length < stringRows.length,
+      sheetNames,
+      headerRowIndex: sheets[0].headerRowIndex,
+      topRows: sheets[0].rows.slice(0, HEADER_SCAN_ROWS),
+    };
+  }
+
+  // Parse a vCard file into one row per contact
+  static async parseVCard(
+    file: File,
+    options: ProcessingOptions = {}
+  ): Promise<ParsedFileData> {
+    const contacts = VCardService.parse(await file.text());
+    if (contacts.length === 0) {
+      throw new Error("No contacts found in vCard file");
+    }
+
+    const { headers, rows } = VCardService.toTable(contacts);
+
+    // Limit rows if specified
+    const limitedRows = options.maxRows ? rows.slice(0, options.maxRows) : rows;
+
+    return {
+      headers,
+      rows: limitedRows,
+      totalRows: limitedRows.length,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: "vcf",
+      truncated: limitedRows.length < rows.length,
+    };
+  }
+
+  // Parse a JSON array or newline-delimited JSON file into one row per record
+  static async parseJSON(
+    file: File,
+    options: ProcessingOptions = {}
+  ): Promise<ParsedFileData> {
+    const records = JsonRecordService.parse(await file.text());
+    if (records.length === 0) {
+      throw new Error("No records found in JSON file");
+    }
+
+    const { headers, rows } = JsonRecordService.toTable(records);
+    if (headers.length === 0) {
+      throw new Error("No fields found in JSON file");
+    }
+
+    // Limit rows if specified
+    const limitedRows = options.maxRows ? rows.slice(0, options.maxRows) : rows;
+
+    return {
+      headers,
+      rows: limitedRows,
+      totalRows: limitedRows.length,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: "json",
+      truncated: limitedRows.length < rows.length,
+    };
+  }
+
+  // List the worksheets of an Excel file so the user can choose which to import
+  static async listExcelSheets(file: File): Promise<ExcelSheetInfo[]> {
+    const workbook = await this.readWorkbook(file);
+
+    return workbook.SheetNames.map((name) => {
+      const rows = this.sheetToRows(workbook.Sheets[name]);
+      const headerRowIndex = this.getHeaderRowIndex(rows);
+      return {
+        name,
+        headers: this.cleanHeaders(this.getHeaderRow(rows, headerRowIndex)),
+        rowCount: Math.max(rows.length - headerRowIndex - 1, 0),
+      };
+    });
+  }
+
+  // Sheets can be combined when they have the same columns, in any order
+  static areHeadersCompatible(a: string[], b: string[]): boolean {
+    const normalize = (headers: string[]) =>
+      Array.from(new Set(headers.map((header) => header.toLowerCase())))
+        .sort()
+        .join("\n");
+    return normalize(a) === normalize(b);
+  }
+
+  private static readWorkbook(file: File): Promise<XLSX.WorkBook> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      reader.onload = (e) => {
+        try {
+          const data = new Uint8Array(e.target?.result as ArrayBuffer);
+          resolve(XLSX.read(data, { type: "array" }));
         } catch (error) {
           reject(
             new Error(
@@ -178,6 +498,99 @@ export class FileProcessingService {
     });
   }
 
+  // Convert a worksheet to string rows, header row included
+  // Number parsed rows by their place in the file, starting at
+  // firstRowNumber, then drop the blank ones when skipEmptyRows is set
+  private static numberRows(
+    parsedRows: string[][],
+    firstRowNumber: number,
+    skipEmptyRows: boolean
+  ): { rows: string[][]; rowNumbers: number[] } {
+    const rows: string[][] = [];
+    const rowNumbers: number[] = [];
+    parsedRows.forEach((row, i) => {
+      if (skipEmptyRows && row.length === 1 && row[0] === "") return;
+      rows.push(row);
+      rowNumbers.push(firstRowNumber + i);
+    });
+    return { rows, rowNumbers };
+  }
+
+  private static sheetToRows(worksheet: XLSX.WorkSheet): string[][] {
+    const jsonData = XLSX.utils.sheet_to_json(worksheet, {
+      header: 1,
+    }) as unknown[][];
+
+    // sheet_to_json leaves holes for empty cells
+    return jsonData.map((row) =>
+      Array.from(row, (cell) =>
+        cell === undefined || cell === null ? "" : String(cell)
+      )
+    );
+  }
+
+  // Detected CSV format with any settings the user chose applied on top
+  private static async resolveCsvFormat(
+    file: File,
+    options: ProcessingOptions
+  ): Promise<CsvFormat> {
+    const overrides = options.csvFormat || {};
+    if (overrides.encoding && overrides.delimiter && overrides.quoteChar) {
+      return { hasBOM: false, ...overrides } as CsvFormat;
+    }
+    return { ...(await CsvFormatService.detect(file)), ...overrides };
+  }
+
+  // Line break of the file, from the first one in the text
+  private static guessNewline(text: string): Papa.ParseConfig["newline"] {
+    const match = /\r\n|\r|\n/.exec(text);
+    return match?.[0] as Papa.ParseConfig["newline"];
+  }
+
+  // Header row chosen by the user, or the most header-like of the top rows.
+  // A detected row whose every value fits its column is the first data row
+  // of a file without a header.
+  private static getHeaderRowIndex(
+    rows: string[][],
+    options: ProcessingOptions = {}
+  ): number {
+    if (options.headerRow !== undefined) return options.headerRow;
+
+    const index = FieldMappingService.detectHeaderRow(
+      rows.slice(0, HEADER_SCAN_ROWS)
+    );
+    const rowsBelow = rows.slice(index + 1, index + 1 + HEADER_SCAN_ROWS);
+    return rows[index] && ColumnClassifier.isDataRow(rows[index], rowsBelow)
+      ? NO_HEADER_ROW
+      : index;
+  }
+
+  // The header row's cells, or positional names when the file has none
+  private static getHeaderRow(
+    rows: string[][],
+    headerRowIndex: number
+  ): string[] {
+    if (headerRowIndex !== NO_HEADER_ROW) return rows[headerRowIndex] || [];
+
+    const columnCount = Math.max(
+      0,
+      ...rows.slice(0, HEADER_SCAN_ROWS).map((row) => row.length)
+    );
+    return Array.from(
+      { length: columnCount },
+      (_, index) => `Column ${index + 1}`
+    );
+  }
+
+  // Name for the synthetic column, avoiding a clash with a real header
+  private static getSheetColumnName(headers: string[]): string {
+    let name = SHEET_COLUMN;
+    for (let suffix = 2; headers.includes(name); suffix++) {
+      name = `${SHEET_COLUMN} ${suffix}`;
+    }
+    return name;
+  }
+
   // Parse file based on type
   static async parseFile(
     file: File,
@@ -200,16 +613,22 @@ export class FileProcessingService {
       case "xlsx":
         console.log("Parsing as Excel...");
         return this.parseExcel(file, options);
+      case "vcf":
+        return this.parseVCard(file, options);
+      case "json":
+        return this.parseJSON(file, options);
       default:
         console.error("Unsupported file type:", fileType);
         throw new Error(
-          `Unsupported file type: ${fileType}. Please upload a CSV or Excel file.`
+          `Unsupported file type: ${fileType}. Please upload a CSV, Excel, vCard or JSON file.`
         );
     }
   }
 
   // Get file type from filename
-  static getFileType(fileName: string): "csv" | "xlsx" | "unknown" {
+  static getFileType(
+    fileName: string
+  ): "csv" | "xlsx" | "vcf" | "json" | "unknown" {
     console.log("getFileType called with fileName:", fileName);
 
     if (!fileName || typeof fileName !== "string") {
@@ -226,23 +645,47 @@ export class FileProcessingService {
       case "xlsx":
       case "xls":
         return "xlsx";
+      case "vcf":
+      case "vcard":
+        return "vcf";
+      case "json":
+      case "ndjson":
+      case "jsonl":
+        return "json";
       default:
         return "unknown";
     }
   }
 
-  // Clean headers - remove empty/null values and trim whitespace
+  // Whether the file can be parsed incrementally with streamCSV
+  static isStreamable(fileName: string): boolean {
+    return this.getFileType(fileName) === "csv";
+  }
+
+  // Clean headers without dropping any, so header i always describes cell i
+  // of each row. Blank headers are named after their position ("Column 5")
+  // and repeated names are numbered ("Email (2)").
   private static cleanHeaders(
     headers: string[],
     trimWhitespace: boolean = true
   ): string[] {
-    return headers
-      .map((header) => {
-        if (!header) return "";
-        const cleaned = trimWhitespace ? header.trim() : header;
-        return cleaned || "";
-      })
-      .filter((header) => header.length > 0);
+    const seen = new Set<string>();
+
+    return Array.from(headers, (header, index) => {
+      const value = header ? header.toString() : "";
+      const cleaned = value.trim()
+        ? trimWhitespace
+          ? value.trim()
+          : value
+        : `Column ${index + 1}`;
+
+      let unique = cleaned;
+      for (let n = 2; seen.has(unique.toLowerCase()); n++) {
+        unique = `${cleaned} (${n})`;
+      }
+      seen.add(unique.toLowerCase());
+      return unique;
+    });
   }
 
   // Validate file before processing
@@ -269,17 +712,6 @@ export class FileProcessingService {
       };
     }
 
-    // Check file size (10MB limit)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      return {
-        valid: false,
-        error: `File size (${(file.size / 1024 / 1024).toFixed(
-          1
-        )}MB) exceeds the 10MB limit`,
-      };
-    }
-
     // Check file type
     const fileType = this.getFileType(file.name);
     console.log("File type detected:", fileType);
@@ -287,7 +719,20 @@ export class FileProcessingService {
     if (fileType === "unknown") {
       return {
         valid: false,
-        error: "Please upload a CSV or Excel (.xlsx) file",
+        error: "Please upload a CSV, Excel (.xlsx), vCard (.vcf) or JSON file",
+      };
+    }
+
+    // Check file size (CSV files are streamed, so they can be much larger)
+    const maxSize = this.isStreamable(file.name)
+      ? MAX_STREAMING_FILE_SIZE
+      : MAX_FILE_SIZE;
+    if (file.size > maxSize) {
+      return {
+        valid: false,
+        error: `File size (${(file.size / 1024 / 1024).toFixed(
+          1
+        )}MB) exceeds the ${maxSize / 1024 / 1024}MB limit`,
       };
     }
 
@@ -0,0 +1,232 @@
+import {
+  ExcelSheetInfo,
+  ParsedFileData,
+  ProcessingOptions,
+} from "./file-processing";
+import { FieldDetectionResult, MappingReferenceData } from "./field-mapping";
+import {
+  ContactValidationService,
+  FieldRule,
+  RowValidationResult,
+} from "./contact-validation";
+
+export interface ValidationProgress {
+  rowsProcessed: number;
+  // Share of the input read so far, from 0 to 1
+  fraction: number;
+  // Only set when the file is streamed
+  bytesProcessed?: number;
+  totalBytes?: number;
+}
+
+export interface ValidationOutcome {
+  totalRows: number;
+  cancelled: boolean;
+}
+
+// Messages sent to the import worker. Every request carries an id that the
+// worker echoes on each of its responses.
+export type ImportWorkerRequest =
+  | {
+      type: "parse";
+      id: number;
+      file: File;
+      options: ProcessingOptions;
+    }
+  | { type: "listSheets"; id: number; file: File }
+  | {
+      type: "analyze";
+      id: number;
+      headers: string[];
+      sampleData: string[][];
+      referenceData: MappingReferenceData;
+      // For the LLM detection route; the worker has no Firebase Auth of its own
+      idToken?: string;
+    }
+  | {
+      type: "validate";
+      id: number;
+      fileData: ParsedFileData;
+      // Streamed instead of fileData.rows when fileData is a truncated preview
+      file?: File;
+      mappings: FieldDetectionResult[];
+      // Contact fields the mapped values are checked against
+      fields: FieldRule[];
+    }
+  // The rows last sent for this id have been handled; send the next ones
+  | { type: "resume"; id: number }
+  | { type: "cancel"; id: number };
+
+// Messages sent back by the import worker
+export type ImportWorkerResponse =
+  | { type: "parsed"; id: number; fileData: ParsedFileData }
+  | { type: "sheetsListed"; id: number; sheets: ExcelSheetInfo[] }
+  | { type: "analyzed"; id: number; mappings: FieldDetectionResult[] }
+  | { type: "progress"; id: number; progress: ValidationProgress }
+  | { type: "rows"; id: number; rows: RowValidationResult[] }
+  | { type: "validated"; id: number; totalRows: number }
+  | { type: "cancelled"; id: number; totalRows: number }
+  | { type: "error"; id: number; error: string };
+
+export interface ValidationHandlers {
+  onProgress?: (progress: ValidationProgress) => void;
+  // The worker reads no further until a returned promise settles, so rows
+  // can be written as they come without piling up
+  onRows: (rows: RowValidationResult[]) => Promise<void> | void;
+}
+
+export interface ImportWorkerTask<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+// Main-thread side of the import worker. Parsing, column detection and row
+// validation run off the main thread so the import modal stays responsive.
+export class ImportWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private handlers = new Map<
+    number,
+    (response: ImportWorkerResponse) => void
+  >();
+
+  constructor() {
+    this.worker = new Worker(new URL("./import.worker.ts", import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      this.handlers.get(event.data.id)?.(event.data);
+    };
+    this.worker.onerror = (event) => {
+      console.error("Import worker error:", event);
+      this.handlers.forEach((handler, id) =>
+        handler({
+          type: "error",
+          id,
+          error: event.message || "Import worker failed",
+        })
+      );
+    };
+  }
+
+  parseFile(
+    file: File,
+    options: ProcessingOptions = {}
+  ): Promise<ParsedFileData> {
+    return this.request({ type: "parse", id: this.nextId++, file, options });
+  }
+
+  listExcelSheets(file: File): Promise<ExcelSheetInfo[]> {
+    return this.request({ type: "listSheets", id: this.nextId++, file });
+  }
+
+  analyzeFileHeaders(
+    headers: string[],
+    sampleData: string[][],
+    referenceData: MappingReferenceData,
+    idToken?: string
+  ): Promise<FieldDetectionResult[]> {
+    return this.request({
+      type: "analyze",
+      id: this.nextId++,
+      headers,
+      sampleData,
+      referenceData,
+      idToken,
+    });
+  }
+
+  // Map and validate every row of the file, reporting results chunk by chunk
+  validateRows(
+    fileData: ParsedFileData,
+    mappings: FieldDetectionResult[],
+    fields: FieldRule[],
+    file: File | undefined,
+    handlers: ValidationHandlers
+  ): ImportWorkerTask<ValidationOutcome> {
+    const id = this.nextId++;
+
+    const result = new Promise<ValidationOutcome>((resolve, reject) => {
+      this.handlers.set(id, (response) => {
+        switch (response.type) {
+          case "progress":
+            handlers.onProgress?.(response.progress);
+            return;
+          case "rows":
+            Promise.resolve()
+              .then(() => handlers.onRows(response.rows))
+              .then(
+                () => this.post({ type: "resume", id }),
+                (error) => {
+                  this.handlers.delete(id);
+                  this.post({ type: "cancel", id });
+                  reject(error);
+                }
+              );
+            return;
+          case "validated":
+          case "cancelled":
+            this.handlers.delete(id);
+            resolve({
+              totalRows: response.totalRows,
+              cancelled: response.type === "cancelled",
+            });
+            return;
+          case "error":
+            this.handlers.delete(id);
+            reject(new Error(response.error));
+            return;
+        }
+      });
+    });
+
+    // Rows are re-read from the file when streaming, so don't copy the preview
+    this.post({
+      type: "validate",
+      id,
+      fileData:
+        file && fileData.truncated
+          ? { ...fileData, rows: [], rowNumbers: undefined }
+          : fileData,
+      file: fileData.truncated ? file : undefined,
+      mappings,
+      fields: ContactValidationService.toFieldRules(fields),
+    });
+
+    return {
+      result,
+      cancel: () => this.post({ type: "cancel", id }),
+    };
+  }
+
+  // Stop the worker; requests still in flight are dropped without settling
+  terminate(): void {
+    this.handlers.clear();
+    this.worker.terminate();
+  }
+
+  private request<T>(
+    message: Extract<
+      ImportWorkerRequest,
+      { type: "parse" | "listSheets" | "analyze" }
+    >
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.handlers.set(message.id, (response) => {
+        this.handlers.delete(message.id);
+        if (response.type === "error") {
+          reject(new Error(response.error));
+        } else if (response.type === "parsed") {
+          resolve(response.fileData as T);
+        } else if (response.type === "sheetsListed") {
+          resolve(response.sheets as T);
+        } else if (response.type === "analyzed") {
+          resolve(response.mappings as T);
+        }
+      });
+      this.post(message);
+    });
+  }
+
+  private post(message: ImportWorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+}
@@ -0,0 +1,162 @@
+import { FileProcessingService } from "./file-processing";
+import { createDetectionProvider } from "./detection-providers";
+import { ContactValidationService } from "./contact-validation";
+import {
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+  ValidationProgress,
+} from "./import-worker";
+
+// Rows validated between progress updates when the rows are already in memory
+const ROWS_PER_BATCH = 1000;
+
+class ValidationCancelledError extends Error {
+  constructor(public rowsProcessed: number) {
+    super("Validation cancelled");
+    this.name = "ValidationCancelledError";
+  }
+}
+
+const cancelledIds = new Set<number>();
+// Validations waiting for the rows they sent to be handled, by request id
+const resumers = new Map<number, () => void>();
+
+const respond = (response: ImportWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const validate = async (
+  request: Extract<ImportWorkerRequest, { type: "validate" }>
+): Promise<number> => {
+  const { id, fileData, file, mappings, fields } = request;
+  const bindings = ContactValidationService.getColumnBindings(mappings);
+  // Rows above the header (titles, notes) still count towards row numbers
+  const headerRowIndex = fileData.headerRowIndex || 0;
+  let rowsProcessed = 0;
+
+  const validateChunk = async (
+    rows: string[][],
+    rowNumbers: number[],
+    progress: ValidationProgress
+  ) => {
+    if (cancelledIds.has(id)) {
+      throw new ValidationCancelledError(rowsProcessed);
+    }
+    respond({
+      type: "rows",
+      id,
+      rows: ContactValidationService.validateRows(
+        rows,
+        bindings,
+        rowNumbers,
+        fields
+      ),
+    });
+    await new Promise<void>((resolve) => resumers.set(id, resolve));
+    rowsProcessed += rows.length;
+    respond({ type: "progress", id, progress });
+  };
+
+  if (file) {
+    await FileProcessingService.streamCSV(file, {
+      skipEmptyRows: true,
+      trimWhitespace: true,
+      headerRow: fileData.headerRowIndex,
+      csvFormat: fileData.csvFormat,
+      onRows: (rows, streamProgress, rowNumbers) =>
+        validateChunk(rows, rowNumbers, {
+          ...streamProgress,
+          fraction: streamProgress.bytesProcessed / streamProgress.totalBytes,
+        }),
+    });
+    return rowsProcessed;
+  }
+
+  const totalRows = fileData.rows.length;
+  for (let i = 0; i < totalRows; i += ROWS_PER_BATCH) {
+    const rows = fileData.rows.slice(i, i + ROWS_PER_BATCH);
+    // Files other than CSV have no blank rows skipped
+    const rowNumbers =
+      fileData.rowNumbers?.slice(i, i + ROWS_PER_BATCH) ||
+      rows.map((_, j) => headerRowIndex + i + j + 2);
+    await validateChunk(rows, rowNumbers, {
+      rowsProcessed: i + rows.length,
+      fraction: (i + rows.length) / totalRows,
+    });
+  }
+  return rowsProcessed;
+};
+
+const handleRequest = async (request: ImportWorkerRequest) => {
+  switch (request.type) {
+    case "parse":
+      respond({
+        type: "parsed",
+        id: request.id,
+        fileData: await FileProcessingService.parseFile(
+          request.file,
+          request.options
+        ),
+      });
+      return;
+
+    case "listSheets":
+      respond({
+        type: "sheetsListed",
+        id: request.id,
+        sheets: await FileProcessingService.listExcelSheets(request.file),
+      });
+      return;
+
+    case "analyze":
+      respond({
+        type: "analyzed",
+        id: request.id,
+        mappings: await createDetectionProvider(request.idToken).detectColumns(
+          request.headers,
+          request.sampleData,
+          request.referenceData
+        ),
+      });
+      return;
+
+    case "validate":
+      try {
+        const totalRows = await validate(request);
+        respond({ type: "validated", id: request.id, totalRows });
+      } catch (error) {
+        if (!(error instanceof ValidationCancelledError)) {
+          throw error;
+        }
+        respond({
+          type: "cancelled",
+          id: request.id,
+          totalRows: error.rowsProcessed,
+        });
+      } finally {
+        cancelledIds.delete(request.id);
+        resumers.delete(request.id);
+      }
+      return;
+
+    case "resume":
+      resumers.get(request.id)?.();
+      return;
+
+    case "cancel":
+      cancelledIds.add(request.id);
+      resumers.get(request.id)?.();
+      return;
+  }
+};
+
+self.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  handleRequest(event.data).catch((error) => {
+    console.error("Import worker request failed:", error);
+    respond({
+      type: "error",
+      id: event.data.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+};
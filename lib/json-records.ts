@@ -0,0 +1,181 @@
+type JsonRecord = Record<string, unknown>;
+
+// Keys holding the actual value of an array element such as
+// { "type": "work", "value": "ann@example.com" }
+const VALUE_KEYS = ["value", "address", "email", "number", "phone", "url"];
+// Keys naming what an array element is for
+const TYPE_KEYS = ["type", "label", "kind"];
+// Keys marking the element that should come first
+const PRIMARY_KEYS = ["primary", "isPrimary", "preferred", "pref", "default"];
+// Keys that usually wrap the list of records in an API response
+const WRAPPER_KEYS = ["contacts", "data", "items", "records", "results"];
+
+export class JsonRecordService {
+  // Read a JSON array, an object wrapping an array ({ "contacts": [...] }),
+  // a single object or newline-delimited JSON (one object per line)
+  static parse(text: string): JsonRecord[] {
+    const trimmed = text.replace(/^\uFEFF/, "").trim();
+    if (!trimmed) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      // A document that starts like an array can't be NDJSON
+      if (trimmed.startsWith("[")) {
+        throw new Error(
+          `Invalid JSON: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+      return this.parseLines(trimmed);
+    }
+
+    if (Array.isArray(parsed)) {
+      return parsed.filter(this.isRecord);
+    }
+    if (this.isRecord(parsed)) {
+      // A lone contact can hold arrays of objects too, so only unwrap known
+      // keys or an object with nothing else in it
+      const keys = Object.keys(parsed);
+      const wrapperKey = keys.find(
+        (key) =>
+          (WRAPPER_KEYS.includes(key.toLowerCase()) || keys.length === 1) &&
+          Array.isArray(parsed[key])
+      );
+      return wrapperKey
+        ? (parsed[wrapperKey] as unknown[]).filter(this.isRecord)
+        : [parsed];
+    }
+    return [];
+  }
+
+  // Flatten records into a table. Nested objects become dotted columns
+  // ("address.city"); columns are ordered by first appearance.
+  static toTable(records: JsonRecord[]): {
+    headers: string[];
+    rows: string[][];
+  } {
+    const headers: string[] = [];
+    const seen = new Set<string>();
+    const flattened = records.map((record) => {
+      const values: Record<string, string> = {};
+      this.flatten(record, "", values);
+      Object.keys(values).forEach((column) => {
+        if (!seen.has(column)) {
+          seen.add(column);
+          headers.push(column);
+        }
+      });
+      return values;
+    });
+
+    return {
+      headers,
+      rows: flattened.map((values) =>
+        headers.map((header) => values[header] || "")
+      ),
+    };
+  }
+
+  private static parseLines(text: string): JsonRecord[] {
+    const records: JsonRecord[] = [];
+    text.split(/\r\n|\r|\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch (error) {
+        throw new Error(
+          `Invalid JSON on line ${index + 1}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+      if (this.isRecord(parsed)) {
+        records.push(parsed);
+      }
+    });
+    return records;
+  }
+
+  private static flatten(
+    value: unknown,
+    path: string,
+    values: Record<string, string>
+  ): void {
+    if (value === null || value === undefined || value === "") return;
+
+    if (Array.isArray(value)) {
+      this.flattenArray(value, path, values);
+    } else if (this.isRecord(value)) {
+      Object.entries(value).forEach(([key, child]) =>
+        this.flatten(child, path ? `${path}.${key}` : key, values)
+      );
+    } else if (path) {
+      values[path] = String(value);
+    }
+  }
+
+  // The primary element keeps the array's own column ("emails"); the others
+  // are named by their type ("emails.work") or position ("emails.2")
+  private static flattenArray(
+    items: unknown[],
+    path: string,
+    values: Record<string, string>
+  ): void {
+    const present = items.filter(
+      (item) => item !== null && item !== undefined && item !== ""
+    );
+    const primaryIndex = present.findIndex(
+      (item) =>
+        this.isRecord(item) && PRIMARY_KEYS.some((key) => item[key] === true)
+    );
+    if (primaryIndex > 0) {
+      present.unshift(...present.splice(primaryIndex, 1));
+    }
+
+    present.forEach((item, index) => {
+      const valueKey = this.isRecord(item)
+        ? VALUE_KEYS.find((key) => key in item && !this.isRecord(item[key]))
+        : undefined;
+      const type =
+        this.isRecord(item) && valueKey
+          ? TYPE_KEYS.map((key) => item[key]).find(
+              (type) => typeof type === "string" && type.trim()
+            )
+          : undefined;
+
+      let column = path;
+      if (index > 0 && typeof type === "string") {
+        column = `${path}.${type.trim().toLowerCase()}`;
+      }
+      // Untyped extras and repeated types are numbered
+      for (let n = 2; this.hasColumn(values, column); n++) {
+        column = `${path}.${n}`;
+      }
+
+      if (this.isRecord(item) && valueKey) {
+        // { type, value } pairs collapse to their value
+        this.flatten(item[valueKey], column, values);
+      } else {
+        this.flatten(item, column, values);
+      }
+    });
+  }
+
+  // Whether a column, or a nested column under it, is already taken
+  private static hasColumn(
+    values: Record<string, string>,
+    column: string
+  ): boolean {
+    return Object.keys(values).some(
+      (key) => key === column || key.startsWith(`${column}.`)
+    );
+  }
+
+  private static isRecord(value: unknown): value is JsonRecord {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
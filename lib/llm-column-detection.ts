@@ -0,0 +1,156 @@
+// Field a column could be mapped to, as described to the model
+export interface ColumnDetectionField {
+  fieldName: string;
+  label: string;
+  type: string;
+}
+
+export interface ColumnDetectionRequest {
+  headers: string[];
+  sampleData: string[][];
+  fields: ColumnDetectionField[];
+}
+
+// The model's pick for one column
+export interface ColumnSuggestion {
+  columnIndex: number;
+  field: string;
+  // 0-100
+  confidence: number;
+}
+
+// Where an OpenAI-compatible chat completions API lives
+export interface LlmEndpointConfig {
+  // e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1"
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Sample rows sent to the model; kept small since they are contact data
+export const LLM_SAMPLE_ROWS = 5;
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Prompting and response parsing for column detection with an
+// OpenAI-compatible model. Used by the /api/column-detection route.
+export class LlmColumnDetection {
+  static async requestSuggestions(
+    config: LlmEndpointConfig,
+    request: ColumnDetectionRequest
+  ): Promise<ColumnSuggestion[]> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(
+        `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: this.buildMessages(request),
+          }),
+          signal: controller.signal,
+        }
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Column detection model returned ${
+            response.status
+          }: ${await response.text()}`
+        );
+      }
+
+      const completion = await response.json();
+      const content = completion?.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("Column detection model returned no message");
+      }
+      return this.parseSuggestions(content, request);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  static buildMessages(
+    request: ColumnDetectionRequest
+  ): { role: "system" | "user"; content: string }[] {
+    const columns = request.headers.map((header, index) => ({
+      index,
+      header,
+      samples: request.sampleData
+        .slice(0, LLM_SAMPLE_ROWS)
+        .map((row) => row[index] || "")
+        .filter(Boolean),
+    }));
+
+    return [
+      {
+        role: "system",
+        content: [
+          "You map columns of a contacts spreadsheet to CRM fields.",
+          "Only use fieldName values from the list of fields you are given, or null when no field fits.",
+          "Map each field to at most one column.",
+          'Reply with JSON only: {"columns": [{"index": number, "field": string | null, "confidence": number}]}, where confidence is 0-100.',
+        ].join(" "),
+      },
+      {
+        role: "user",
+        content: JSON.stringify({ fields: request.fields, columns }),
+      },
+    ];
+  }
+
+  // Keep only well-formed suggestions for real columns and known fields
+  static parseSuggestions(
+    content: string,
+    request: ColumnDetectionRequest
+  ): ColumnSuggestion[] {
+    // Some models wrap JSON in a code fence despite being told not to
+    const json = content
+      .trim()
+      .replace(/^```(?:json)?\s*/i, "")
+      .replace(/\s*```$/, "");
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error("Column detection model returned invalid JSON");
+    }
+
+    const columns = (parsed as { columns?: unknown })?.columns;
+    if (!Array.isArray(columns)) return [];
+
+    const fieldNames = new Set(request.fields.map((field) => field.fieldName));
+    return columns.flatMap((column) => {
+      const { index, field, confidence } = (column || {}) as Record<
+        string,
+        unknown
+      >;
+      if (
+        typeof index !== "number" ||
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= request.headers.length ||
+        typeof field !== "string" ||
+        !fieldNames.has(field)
+      ) {
+        return [];
+      }
+      return [
+        {
+          columnIndex: index,
+          field,
+          confidence: Math.max(0, Math.min(100, Number(confidence) || 0)),
+        },
+      ];
+    });
+  }
+}
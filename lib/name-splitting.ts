@@ -0,0 +1,137 @@
+// Mapping target for a column holding whole names. The column fills
+// firstName and lastName instead of a single field.
+export const SPLIT_NAME_FIELD = "split_full_name";
+
+export interface NameParts {
+  prefix: string;
+  first: string;
+  middle: string;
+  last: string;
+  suffix: string;
+}
+
+// Where the optional parts of a split name go. Without a field, middle names
+// stay with the first name, suffixes stay with the last name and prefixes
+// are dropped.
+export interface NameSplitConfig {
+  prefixField?: string;
+  middleField?: string;
+  suffixField?: string;
+}
+
+// Compared lowercased and without dots
+const PREFIXES = new Set(
+  (
+    "mr mrs ms miss mx dr prof rev fr sir dame lord lady " +
+    "hon capt col gen lt sgt"
+  ).split(" ")
+);
+const SUFFIXES = new Set(
+  "jr sr ii iii iv phd md dds dvm esq cpa mba rn".split(" ")
+);
+// Lowercase words that belong to the surname after them ("van der Berg")
+const SURNAME_PARTICLES = new Set(
+  "van von der den de da del della di du dos das la le bin al".split(" ")
+);
+
+export class NameSplitService {
+  // Break a name written as "Dr. Mary Ann Smith Jr." or "Smith, Mary Ann"
+  // into its parts
+  static parse(value: string): NameParts {
+    const parts: NameParts = {
+      prefix: "",
+      first: "",
+      middle: "",
+      last: "",
+      suffix: "",
+    };
+    let name = value.trim().replace(/\s+/g, " ");
+    if (!name) return parts;
+
+    // Suffixes written after a comma: "Mary Smith, Jr."
+    const suffixes: string[] = [];
+    const commaParts = name.split(/\s*,\s*/).filter(Boolean);
+    while (
+      commaParts.length > 1 &&
+      this.isSuffix(commaParts[commaParts.length - 1])
+    ) {
+      suffixes.unshift(commaParts.pop() as string);
+    }
+
+    // "Last, First Middle"
+    if (commaParts.length > 1) {
+      parts.last = commaParts[0];
+      name = commaParts.slice(1).join(" ");
+    } else {
+      name = commaParts[0] || "";
+    }
+
+    const tokens = name.split(" ").filter(Boolean);
+    const prefixes: string[] = [];
+    while (tokens.length > 1 && this.isPrefix(tokens[0])) {
+      prefixes.push(tokens.shift() as string);
+    }
+    while (tokens.length > 1 && this.isSuffix(tokens[tokens.length - 1])) {
+      suffixes.unshift(tokens.pop() as string);
+    }
+
+    if (!parts.last && tokens.length > 1) {
+      // Particles before the surname are part of it, but never the first name
+      let start = tokens.length - 1;
+      while (start > 1 && SURNAME_PARTICLES.has(tokens[start - 1])) {
+        start--;
+      }
+      parts.last = tokens.splice(start).join(" ");
+    }
+
+    parts.prefix = prefixes.join(" ");
+    parts.first = tokens[0] || "";
+    parts.middle = tokens.slice(1).join(" ");
+    parts.suffix = suffixes.join(" ");
+    return parts;
+  }
+
+  // Contact fields for a whole name. Parts without a value are left out.
+  static split(
+    value: string,
+    config: NameSplitConfig = {}
+  ): Record<string, string> {
+    const parts = this.parse(value);
+    const join = (...values: string[]) => values.filter(Boolean).join(" ");
+
+    const fields: Record<string, string> = {
+      firstName: config.middleField
+        ? parts.first
+        : join(parts.first, parts.middle),
+      lastName: config.suffixField
+        ? parts.last
+        : join(parts.last, parts.suffix),
+    };
+    if (config.prefixField) fields[config.prefixField] = parts.prefix;
+    if (config.middleField) fields[config.middleField] = parts.middle;
+    if (config.suffixField) fields[config.suffixField] = parts.suffix;
+
+    return Object.fromEntries(
+      Object.entries(fields).filter(([, fieldValue]) => fieldValue)
+    );
+  }
+
+  // Whether most values hold more than one word, as whole names do
+  static looksLikeFullNames(values: string[]): boolean {
+    const names = values.filter((value) => /\p{L}/u.test(value));
+    if (names.length === 0) return false;
+    const whole = names.filter((value) => {
+      const parts = this.parse(value);
+      return parts.first && parts.last;
+    });
+    return whole.length / names.length >= 0.6;
+  }
+
+  private static isPrefix(token: string): boolean {
+    return PREFIXES.has(token.toLowerCase().replace(/\./g, ""));
+  }
+
+  private static isSuffix(token: string): boolean {
+    return SUFFIXES.has(token.toLowerCase().replace(/[.,]/g, ""));
+  }
+}
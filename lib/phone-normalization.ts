@@ -0,0 +1,236 @@
+export interface PhoneCountry {
+  // ISO 3166-1 alpha-2 code
+  iso: string;
+  name: string;
+  callingCode: string;
+  // Dialled before national numbers within the country, e.g. the 0 of
+  // "020 7946 0958"
+  trunkPrefix?: string;
+  // Digits in a national number without the trunk prefix
+  minLength: number;
+  maxLength: number;
+}
+
+// Countries phone numbers are read for, sorted by name: ISO code, name,
+// calling code, trunk prefix and the shortest and longest national number.
+// Lengths are kept loose so valid numbers are never rejected, at the cost of
+// passing a few invalid ones.
+const COUNTRY_TABLE: [string, string, string, string, number, number][] = [
+  ["AR", "Argentina", "54", "0", 10, 11],
+  ["AU", "Australia", "61", "0", 9, 9],
+  ["AT", "Austria", "43", "0", 4, 13],
+  ["BD", "Bangladesh", "880", "0", 8, 10],
+  ["BE", "Belgium", "32", "0", 8, 9],
+  ["BR", "Brazil", "55", "0", 10, 11],
+  ["CA", "Canada", "1", "1", 10, 10],
+  ["CL", "Chile", "56", "", 9, 9],
+  ["CN", "China", "86", "0", 9, 11],
+  ["CO", "Colombia", "57", "", 10, 10],
+  ["CZ", "Czech Republic", "420", "", 9, 9],
+  ["DK", "Denmark", "45", "", 8, 8],
+  ["EG", "Egypt", "20", "0", 9, 10],
+  ["FI", "Finland", "358", "0", 5, 12],
+  ["FR", "France", "33", "0", 9, 9],
+  ["DE", "Germany", "49", "0", 6, 13],
+  ["GR", "Greece", "30", "", 10, 10],
+  ["HK", "Hong Kong", "852", "", 8, 8],
+  ["IN", "India", "91", "0", 10, 10],
+  ["ID", "Indonesia", "62", "0", 9, 12],
+  ["IE", "Ireland", "353", "0", 7, 9],
+  ["IL", "Israel", "972", "0", 8, 9],
+  ["IT", "Italy", "39", "", 6, 11],
+  ["JP", "Japan", "81", "0", 9, 10],
+  ["KE", "Kenya", "254", "0", 9, 9],
+  ["MY", "Malaysia", "60", "0", 8, 10],
+  ["MX", "Mexico", "52", "", 10, 10],
+  ["NL", "Netherlands", "31", "0", 9, 9],
+  ["NZ", "New Zealand", "64", "0", 8, 10],
+  ["NG", "Nigeria", "234", "0", 8, 10],
+  ["NO", "Norway", "47", "", 8, 8],
+  ["PK", "Pakistan", "92", "0", 9, 10],
+  ["PH", "Philippines", "63", "0", 8, 10],
+  ["PL", "Poland", "48", "", 9, 9],
+  ["PT", "Portugal", "351", "", 9, 9],
+  ["RU", "Russia", "7", "8", 10, 10],
+  ["SA", "Saudi Arabia", "966", "0", 8, 9],
+  ["SG", "Singapore", "65", "", 8, 8],
+  ["ZA", "South Africa", "27", "0", 9, 9],
+  ["KR", "South Korea", "82", "0", 8, 10],
+  ["ES", "Spain", "34", "", 9, 9],
+  ["SE", "Sweden", "46", "0", 7, 10],
+  ["CH", "Switzerland", "41", "0", 9, 9],
+  ["TH", "Thailand", "66", "0", 8, 9],
+  ["TR", "Turkey", "90", "0", 10, 10],
+  ["AE", "United Arab Emirates", "971", "0", 8, 9],
+  ["GB", "United Kingdom", "44", "0", 9, 10],
+  ["US", "United States", "1", "1", 10, 10],
+  ["VN", "Vietnam", "84", "0", 9, 10],
+];
+
+export const PHONE_COUNTRIES: PhoneCountry[] = COUNTRY_TABLE.map(
+  ([iso, name, callingCode, trunkPrefix, minLength, maxLength]) => ({
+    iso,
+    name,
+    callingCode,
+    ...(trunkPrefix && { trunkPrefix }),
+    minLength,
+    maxLength,
+  })
+);
+
+// Other ways files write a country, lowercased
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US",
+  "united states of america": "US",
+  america: "US",
+  uk: "GB",
+  "great britain": "GB",
+  britain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  uae: "AE",
+  korea: "KR",
+  "republic of korea": "KR",
+  czechia: "CZ",
+  holland: "NL",
+  "the netherlands": "NL",
+  "russian federation": "RU",
+  turkiye: "TR",
+  "viet nam": "VN",
+};
+
+// Country whose numbers are assumed when a row doesn't say otherwise
+export function getDefaultPhoneCountry(): string {
+  return process.env.NEXT_PUBLIC_DEFAULT_PHONE_COUNTRY?.toUpperCase() || "US";
+}
+
+// Reads phone numbers written in national or international form into E.164
+// ("+442079460958"). Kept free of Firebase imports so it can run inside the
+// import worker.
+export class PhoneNormalizationService {
+  static getCountry(iso: string): PhoneCountry | undefined {
+    return PHONE_COUNTRIES.find((country) => country.iso === iso.toUpperCase());
+  }
+
+  // ISO code of a country written as a code ("GB"), a name ("United
+  // Kingdom", "UK") or a calling code ("+44"), or null when it isn't known
+  static resolveCountry(value: string): string | null {
+    const key = value.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!key) return null;
+
+    if (/^\+?\d{1,3}$/.test(key)) {
+      // Calling codes shared by several countries resolve to the first
+      // listed with it, which only matters for the trunk prefix
+      const code = key.replace("+", "");
+      const country =
+        code === "1"
+          ? this.getCountry("US")
+          : PHONE_COUNTRIES.find(({ callingCode }) => callingCode === code);
+      return country?.iso || null;
+    }
+
+    const country = PHONE_COUNTRIES.find(
+      ({ iso, name }) => iso.toLowerCase() === key || name.toLowerCase() === key
+    );
+    return country?.iso || COUNTRY_ALIASES[key] || null;
+  }
+
+  // The number in E.164 form, or null when it isn't a valid number. Numbers
+  // without a "+" or international dialling prefix are read as numbers of
+  // the given country.
+  static toE164(value: string, countryIso?: string): string | null {
+    const number = value
+      .trim()
+      // Extensions aren't part of the E.164 number
+      .replace(/\s*(ext\.?|extension|x|#)\s*\d+$/i, "")
+      // "+44 (0)20 7946 0958": the trunk prefix isn't dialled from abroad
+      .replace(/\(0\)/g, "");
+    if (!/^\+?[\d\s\-().\/]+$/.test(number)) return null;
+
+    const digits = number.replace(/\D/g, "");
+    const country = countryIso ? this.getCountry(countryIso) : undefined;
+
+    if (number.startsWith("+")) return this.fromInternational(digits);
+    if (digits.startsWith("00")) return this.fromInternational(digits.slice(2));
+    if (country?.callingCode === "1" && digits.startsWith("011")) {
+      return this.fromInternational(digits.slice(3));
+    }
+    if (!country) return null;
+
+    return this.fromNational(digits, country);
+  }
+
+  private static fromNational(
+    digits: string,
+    country: PhoneCountry
+  ): string | null {
+    const fits = (national: string) =>
+      national.length >= country.minLength &&
+      national.length <= country.maxLength;
+
+    let national = digits;
+    if (!fits(national)) {
+      if (
+        country.trunkPrefix &&
+        digits.startsWith(country.trunkPrefix) &&
+        fits(digits.slice(country.trunkPrefix.length))
+      ) {
+        national = digits.slice(country.trunkPrefix.length);
+      } else if (
+        // Written with the calling code but no "+" ("44 20 7946 0958")
+        digits.startsWith(country.callingCode) &&
+        fits(digits.slice(country.callingCode.length))
+      ) {
+        national = digits.slice(country.callingCode.length);
+      } else {
+        return null;
+      }
+    } else if (
+      country.trunkPrefix &&
+      digits.startsWith(country.trunkPrefix) &&
+      country.trunkPrefix !== country.callingCode
+    ) {
+      // Number lengths vary within some countries, so a number can fit
+      // with its trunk prefix still on it ("030 1234567" in Germany)
+      const withoutTrunk = digits.slice(country.trunkPrefix.length);
+      if (fits(withoutTrunk)) national = withoutTrunk;
+    }
+
+    return `+${country.callingCode}${national}`;
+  }
+
+  private static fromInternational(digits: string): string | null {
+    // E.164 allows at most 15 digits
+    if (digits.length < 8 || digits.length > 15) return null;
+
+    // Check the length against the country when the calling code is known
+    for (let length = 3; length >= 1; length--) {
+      const code = digits.slice(0, length);
+      const country = PHONE_COUNTRIES.find(
+        ({ callingCode }) => callingCode === code
+      );
+      if (!country) continue;
+
+      let national = digits.slice(length);
+      // "+44 020 7946 0958": a trunk prefix kept after the calling code
+      if (
+        country.trunkPrefix === "0" &&
+        national.startsWith("0") &&
+        national.length > country.maxLength
+      ) {
+        national = national.slice(1);
+      }
+      if (
+        national.length < country.minLength ||
+        national.length > country.maxLength
+      ) {
+        return null;
+      }
+      return `+${code}${national}`;
+    }
+
+    return `+${digits}`;
+  }
+}
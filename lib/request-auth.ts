@@ -0,0 +1,32 @@
+import { firebaseConfig } from "./firebase-config";
+
+// Identity Toolkit looks up the account an ID token belongs to, which checks
+// the token without the Admin SDK or a service account
+const ACCOUNT_LOOKUP_URL =
+  "https://identitytoolkit.googleapis.com/v1/accounts:lookup";
+
+// Uid of the user whose Firebase ID token is in the request's Authorization
+// header, or null when there is none or it isn't valid
+export async function getRequestUserId(
+  request: Request
+): Promise<string | null> {
+  const match = /^Bearer\s+(\S+)$/.exec(
+    request.headers.get("Authorization") || ""
+  );
+  if (!match) return null;
+
+  const response = await fetch(
+    `${ACCOUNT_LOOKUP_URL}?key=${encodeURIComponent(firebaseConfig.apiKey)}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ idToken: match[1] }),
+    }
+  );
+  if (!response.ok) return null;
+
+  const { users } = (await response.json()) as {
+    users?: { localId?: string }[];
+  };
+  return users?.[0]?.localId || null;
+}
@@ -0,0 +1,109 @@
+// A column that can hold a contact's email or phone in a known export format
+export interface PresetColumn {
+  // Position of the value column in the headers
+  index: number;
+  // Position of the column describing the value ("* Work"), if there is one
+  labelIndex?: number;
+}
+
+// Export format of a well-known contacts app, recognized by its headers
+export interface SourcePreset {
+  id: "google" | "outlook";
+  name: string;
+  // Whether the lowercased headers are this app's export format
+  matches: (headers: Set<string>) => boolean;
+  // Columns mapped straight to a contact field, keyed by lowercased header
+  fields: Record<string, string>;
+  // Columns that can hold the contact's email or phone, most likely first
+  getEmailColumns: (headers: string[]) => PresetColumn[];
+  getPhoneColumns: (headers: string[]) => PresetColumn[];
+}
+
+// Google numbers repeated values: "E-mail 1 - Value" with "E-mail 1 - Label"
+// (or "- Type" in older exports) next to it
+const numberedColumns =
+  (prefix: string) =>
+  (headers: string[]): PresetColumn[] => {
+    const valuePattern = new RegExp(`^${prefix} (\\d+) - value$`, "i");
+    return headers
+      .map((header, index) => ({
+        index,
+        number: header.trim().match(valuePattern)?.[1],
+      }))
+      .filter(({ number }) => number !== undefined)
+      .sort((a, b) => Number(a.number) - Number(b.number))
+      .map(({ index, number }) => {
+        const labelPattern = new RegExp(
+          `^${prefix} ${number} - (label|type)$`,
+          "i"
+        );
+        const labelIndex = headers.findIndex((header) =>
+          labelPattern.test(header.trim())
+        );
+        return { index, labelIndex: labelIndex >= 0 ? labelIndex : undefined };
+      });
+  };
+
+// Outlook has a fixed column per kind of value
+const namedColumns =
+  (names: string[]) =>
+  (headers: string[]): PresetColumn[] =>
+    names
+      .map((name) =>
+        headers.findIndex((header) => header.trim().toLowerCase() === name)
+      )
+      .filter((index) => index >= 0)
+      .map((index) => ({ index }));
+
+export const SOURCE_PRESETS: SourcePreset[] = [
+  {
+    id: "google",
+    name: "Google Contacts",
+    matches: (headers) =>
+      (headers.has("labels") || headers.has("group membership")) &&
+      Array.from(headers).some((header) =>
+        /^(e-mail|phone) \d+ - value$/.test(header)
+      ),
+    fields: {
+      "first name": "firstName",
+      "given name": "firstName",
+      "last name": "lastName",
+      "family name": "lastName",
+    },
+    getEmailColumns: numberedColumns("e-mail"),
+    getPhoneColumns: numberedColumns("phone"),
+  },
+  {
+    id: "outlook",
+    name: "Outlook",
+    matches: (headers) =>
+      [
+        "first name",
+        "last name",
+        "e-mail address",
+        "business phone",
+        "home phone",
+        "mobile phone",
+      ].every((header) => headers.has(header)),
+    fields: {
+      "first name": "firstName",
+      "last name": "lastName",
+    },
+    getEmailColumns: namedColumns([
+      "e-mail address",
+      "e-mail 2 address",
+      "e-mail 3 address",
+    ]),
+    getPhoneColumns: namedColumns([
+      "mobile phone",
+      "primary phone",
+      "business phone",
+      "home phone",
+      "business phone 2",
+      "home phone 2",
+      "company main phone",
+      "other phone",
+      "car phone",
+    ]),
+  },
+];
@@ -0,0 +1,140 @@
+import { ValueTransform } from "../types/firestore";
+
+// Date layouts a column can be parsed from. Dates are stored as YYYY-MM-DD.
+export const DATE_FORMATS = [
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "YYYY-MM-DD",
+  "DD.MM.YYYY",
+  "MM-DD-YYYY",
+  "DD-MM-YYYY",
+  "YYYY/MM/DD",
+  "MM/DD/YY",
+  "DD/MM/YY",
+];
+
+export const TRANSFORM_LABELS: Record<ValueTransform["type"], string> = {
+  trim: "Trim spaces",
+  case: "Change case",
+  replace: "Find and replace",
+  lookup: "Lookup table",
+  date: "Parse date",
+  default: "Default if empty",
+};
+
+// A new step of the given type with empty settings
+export function createTransform(type: ValueTransform["type"]): ValueTransform {
+  switch (type) {
+    case "trim":
+      return { type };
+    case "case":
+      return { type, mode: "title" };
+    case "replace":
+      return { type, pattern: "", replacement: "", ignoreCase: false };
+    case "lookup":
+      return { type, entries: [{ from: "", to: "" }] };
+    case "date":
+      return { type, format: DATE_FORMATS[0] };
+    case "default":
+      return { type, value: "" };
+  }
+}
+
+// Applies a column's transforms in order. Kept free of Firebase imports so it
+// can run inside the import worker.
+export class ValueTransformService {
+  static apply(value: string, transforms: ValueTransform[] = []): string {
+    return transforms.reduce(
+      (current, transform) => this.applyOne(current, transform),
+      value
+    );
+  }
+
+  // Why a step can't run, e.g. an invalid regular expression
+  static getError(transform: ValueTransform): string | null {
+    if (transform.type !== "replace" || !transform.pattern) return null;
+    try {
+      new RegExp(transform.pattern);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid pattern";
+    }
+  }
+
+  private static applyOne(value: string, transform: ValueTransform): string {
+    switch (transform.type) {
+      case "trim":
+        return value.trim().replace(/\s+/g, " ");
+
+      case "case":
+        if (transform.mode === "upper") return value.toUpperCase();
+        if (transform.mode === "lower") return value.toLowerCase();
+        return value
+          .toLowerCase()
+          .replace(
+            /(^|[\s\-'])(\p{L})/gu,
+            (_, start, letter) => `${start}${letter.toUpperCase()}`
+          );
+
+      case "replace":
+        // A step with a bad pattern is skipped rather than failing the import
+        if (!transform.pattern || this.getError(transform)) return value;
+        return value.replace(
+          new RegExp(transform.pattern, transform.ignoreCase ? "gi" : "g"),
+          transform.replacement
+        );
+
+      case "lookup": {
+        // Matched ignoring case and surrounding spaces
+        const key = value.trim().toLowerCase();
+        const entry = transform.entries.find(
+          ({ from }) => from.trim().toLowerCase() === key
+        );
+        return entry ? entry.to : value;
+      }
+
+      case "date":
+        return this.parseDate(value, transform.format) || value;
+
+      case "default":
+        return value.trim() ? value : transform.value;
+    }
+  }
+
+  // Read a date laid out as the format says and write it as YYYY-MM-DD, or
+  // null when it doesn't fit the format or isn't a real date
+  static parseDate(value: string, format: string): string | null {
+    const order: ("Y" | "M" | "D")[] = [];
+    const pattern = format
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/YYYY|YY|MM|DD/g, (token) => {
+        order.push(token[0] as "Y" | "M" | "D");
+        return token === "YYYY"
+          ? "(\\d{4})"
+          : token === "YY"
+          ? "(\\d{2})"
+          : "(\\d{1,2})";
+      });
+    const match = value.trim().match(new RegExp(`^${pattern}$`));
+    if (!match) return null;
+
+    const parts = { Y: 0, M: 0, D: 0 };
+    order.forEach((part, i) => {
+      parts[part] = Number(match[i + 1]);
+    });
+    // Two-digit years up to 49 are taken as 20xx
+    if (format.includes("YY") && !format.includes("YYYY")) {
+      parts.Y += parts.Y < 50 ? 2000 : 1900;
+    }
+
+    const date = new Date(Date.UTC(parts.Y, parts.M - 1, parts.D));
+    if (
+      date.getUTCFullYear() !== parts.Y ||
+      date.getUTCMonth() !== parts.M - 1 ||
+      date.getUTCDate() !== parts.D
+    ) {
+      return null;
+    }
+    return date.toISOString().slice(0, 10);
+  }
+}
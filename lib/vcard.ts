@@ -0,0 +1,478 @@
+// One value of a property that can repeat, such as EMAIL or TEL
+export interface VCardValue {
+  value: string;
+  // Lowercase TYPE parameters, e.g. ["work", "cell"]
+  types: string[];
+  // Lower is more preferred; values without a preference sort last
+  pref: number;
+}
+
+export interface VCardAddress {
+  types: string[];
+  pref: number;
+  poBox: string;
+  extended: string;
+  street: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface VCardContact {
+  fullName: string;
+  firstName: string;
+  middleName: string;
+  lastName: string;
+  prefix: string;
+  suffix: string;
+  nickname: string;
+  organization: string;
+  department: string;
+  title: string;
+  emails: VCardValue[];
+  phones: VCardValue[];
+  addresses: VCardAddress[];
+  urls: VCardValue[];
+  birthday: string;
+  note: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Column groups in the order they appear in the flattened table. Typed and
+// numbered variants ("Phone (Work)", "Email 2") sort with their group.
+const COLUMN_ORDER = [
+  "Full Name",
+  "First Name",
+  "Middle Name",
+  "Last Name",
+  "Name Prefix",
+  "Name Suffix",
+  "Nickname",
+  "Email",
+  "Phone",
+  "Organization",
+  "Department",
+  "Title",
+  "Address",
+  "Street",
+  "City",
+  "Region",
+  "Postal Code",
+  "Country",
+  "Website",
+  "Birthday",
+  "Note",
+];
+
+// TYPE values that say nothing about what the value is for
+const IGNORED_TYPES = ["pref", "internet", "voice", "x400", "text"];
+
+const TYPE_LABELS: Record<string, string> = {
+  cell: "Mobile",
+  mobile: "Mobile",
+  iphone: "iPhone",
+};
+
+const NO_PREFERENCE = 100;
+
+export class VCardService {
+  // Parse every card in a .vcf file (vCard 3.0 and 4.0)
+  static parse(text: string): VCardContact[] {
+    const contacts: VCardContact[] = [];
+    let lines: ContentLine[] | null = null;
+    let depth = 0;
+
+    for (const raw of this.unfold(text)) {
+      const line = this.parseLine(raw);
+      if (!line) continue;
+
+      if (line.name === "BEGIN" && line.value.toUpperCase() === "VCARD") {
+        // Cards nested inside a card (vCard 2.1 AGENT) are skipped
+        if (depth++ === 0) lines = [];
+      } else if (line.name === "END" && line.value.toUpperCase() === "VCARD") {
+        if (depth > 0 && --depth === 0 && lines) {
+          contacts.push(this.toContact(lines));
+          lines = null;
+        }
+      } else if (depth === 1 && lines) {
+        lines.push(line);
+      }
+    }
+
+    // Keep a final card whose END line is missing
+    if (lines) {
+      contacts.push(this.toContact(lines));
+    }
+
+    return contacts.filter((contact) => this.hasValues(contact));
+  }
+
+  // Flatten cards into a table. Each repeated value gets its own column: the
+  // preferred email is "Email", the others "Email (Work)", "Email 2" etc.
+  static toTable(contacts: VCardContact[]): {
+    headers: string[];
+    rows: string[][];
+  } {
+    const columns = new Map<string, { group: number; seq: number }>();
+    const records = contacts.map((contact) => {
+      const record = this.flatten(contact);
+      Object.keys(record).forEach((column) => {
+        if (!columns.has(column)) {
+          columns.set(column, {
+            group: COLUMN_ORDER.findIndex(
+              (base) => column === base || column.startsWith(`${base} `)
+            ),
+            seq: columns.size,
+          });
+        }
+      });
+      return record;
+    });
+
+    const headers = Array.from(columns.keys()).sort((a, b) => {
+      const columnA = columns.get(a)!;
+      const columnB = columns.get(b)!;
+      return columnA.group - columnB.group || columnA.seq - columnB.seq;
+    });
+
+    return {
+      headers,
+      rows: records.map((record) =>
+        headers.map((header) => record[header] || "")
+      ),
+    };
+  }
+
+  private static flatten(contact: VCardContact): Record<string, string> {
+    const record: Record<string, string> = {
+      "Full Name": contact.fullName,
+      "First Name": contact.firstName,
+      "Middle Name": contact.middleName,
+      "Last Name": contact.lastName,
+      "Name Prefix": contact.prefix,
+      "Name Suffix": contact.suffix,
+      Nickname: contact.nickname,
+      Organization: contact.organization,
+      Department: contact.department,
+      Title: contact.title,
+      Birthday: contact.birthday,
+      Note: contact.note,
+    };
+
+    this.addValues(record, "Email", contact.emails);
+    this.addValues(record, "Phone", contact.phones);
+    this.addValues(record, "Website", contact.urls);
+
+    // The preferred address is also split into its parts
+    const addresses = this.byPreference(contact.addresses);
+    if (addresses.length > 0) {
+      const [primary] = addresses;
+      record.Street = [primary.poBox, primary.extended, primary.street]
+        .filter(Boolean)
+        .join(", ");
+      record.City = primary.city;
+      record.Region = primary.region;
+      record["Postal Code"] = primary.postalCode;
+      record.Country = primary.country;
+    }
+    this.addValues(
+      record,
+      "Address",
+      addresses.map((address) => ({
+        value: this.formatAddress(address),
+        types: address.types,
+        pref: address.pref,
+      }))
+    );
+
+    Object.keys(record).forEach((column) => {
+      if (!record[column]) delete record[column];
+    });
+    return record;
+  }
+
+  private static addValues(
+    record: Record<string, string>,
+    label: string,
+    values: VCardValue[]
+  ): void {
+    this.byPreference(values.filter(({ value }) => value)).forEach(
+      ({ value, types }, index) => {
+        let column = label;
+        const type = types.find((type) => !IGNORED_TYPES.includes(type));
+        if (index > 0 && type) {
+          column = `${label} (${this.formatType(type)})`;
+        }
+        // Untyped extras and repeated types are numbered
+        for (let n = 2; record[column] !== undefined; n++) {
+          column = `${label} ${n}`;
+        }
+        record[column] = value;
+      }
+    );
+  }
+
+  // Stable sort, most preferred first
+  private static byPreference<T extends { pref: number }>(values: T[]): T[] {
+    return values
+      .map((value, index) => ({ value, index }))
+      .sort((a, b) => a.value.pref - b.value.pref || a.index - b.index)
+      .map(({ value }) => value);
+  }
+
+  private static formatType(type: string): string {
+    return (
+      TYPE_LABELS[type] ||
+      type.replace(/^x-/, "").replace(/^./, (char) => char.toUpperCase())
+    );
+  }
+
+  // One-line address, e.g. "12 Main St, Springfield, IL 62701, USA"
+  private static formatAddress(address: VCardAddress): string {
+    const street = [address.poBox, address.extended, address.street]
+      .filter(Boolean)
+      .join(", ");
+    const locality = [
+      address.city,
+      [address.region, address.postalCode].filter(Boolean).join(" "),
+    ]
+      .filter(Boolean)
+      .join(", ");
+    return [street, locality, address.country].filter(Boolean).join(", ");
+  }
+
+  private static toContact(lines: ContentLine[]): VCardContact {
+    const contact: VCardContact = {
+      fullName: "",
+      firstName: "",
+      middleName: "",
+      lastName: "",
+      prefix: "",
+      suffix: "",
+      nickname: "",
+      organization: "",
+      department: "",
+      title: "",
+      emails: [],
+      phones: [],
+      addresses: [],
+      urls: [],
+      birthday: "",
+      note: "",
+    };
+
+    lines.forEach(({ name, params, value }) => {
+      const types = (params.TYPE || []).map((type) => type.toLowerCase());
+      const pref = this.getPreference(params, types);
+
+      switch (name) {
+        case "FN":
+          contact.fullName = contact.fullName || this.unescape(value);
+          break;
+        case "N": {
+          const [last, first, middle, prefix, suffix] =
+            this.getComponents(value);
+          contact.lastName = last || "";
+          contact.firstName = first || "";
+          contact.middleName = middle || "";
+          contact.prefix = prefix || "";
+          contact.suffix = suffix || "";
+          break;
+        }
+        case "NICKNAME":
+          contact.nickname = contact.nickname || this.unescape(value);
+          break;
+        case "ORG": {
+          const [organization, ...units] = this.getComponents(value);
+          contact.organization = organization || "";
+          contact.department = units.filter(Boolean).join(", ");
+          break;
+        }
+        case "TITLE":
+          contact.title = contact.title || this.unescape(value);
+          break;
+        case "EMAIL":
+          contact.emails.push({
+            value: this.unescape(value).replace(/^mailto:/i, ""),
+            types,
+            pref,
+          });
+          break;
+        case "TEL":
+          contact.phones.push({
+            value: this.unescape(value).replace(/^tel:/i, ""),
+            types,
+            pref,
+          });
+          break;
+        case "URL":
+          contact.urls.push({ value: this.unescape(value), types, pref });
+          break;
+        case "ADR": {
+          const [poBox, extended, street, city, region, postalCode, country] =
+            this.getComponents(value).map((component) =>
+              // Multi-line streets are kept on one line
+              (component || "").replace(/\s*\n\s*/g, ", ")
+            );
+          contact.addresses.push({
+            types,
+            pref,
+            poBox: poBox || "",
+            extended: extended || "",
+            street: street || "",
+            city: city || "",
+            region: region || "",
+            postalCode: postalCode || "",
+            country: country || "",
+          });
+          break;
+        }
+        case "BDAY":
+          contact.birthday = this.unescape(value);
+          break;
+        case "NOTE":
+          contact.note = contact.note
+            ? `${contact.note}\n${this.unescape(value)}`
+            : this.unescape(value);
+          break;
+      }
+    });
+
+    // Cards without an N property still have a formatted name
+    if (!contact.fullName) {
+      contact.fullName = [
+        contact.prefix,
+        contact.firstName,
+        contact.middleName,
+        contact.lastName,
+        contact.suffix,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+
+    return contact;
+  }
+
+  private static hasValues(contact: VCardContact): boolean {
+    return Object.values(contact).some((value) =>
+      Array.isArray(value) ? value.length > 0 : !!value
+    );
+  }
+
+  // vCard 4.0 uses PREF=1..100; vCard 3.0 marks the preferred value TYPE=pref
+  private static getPreference(
+    params: Record<string, string[]>,
+    types: string[]
+  ): number {
+    const pref = Number(params.PREF?.[0]);
+    if (pref > 0) return pref;
+    return types.includes("pref") ? 1 : NO_PREFERENCE;
+  }
+
+  // Join folded lines: a line starting with a space or tab continues the
+  // previous one
+  private static unfold(text: string): string[] {
+    return text
+      .replace(/^\uFEFF/, "")
+      .replace(/\r\n[ \t]|\r[ \t]|\n[ \t]/g, "")
+      .split(/\r\n|\r|\n/)
+      .filter((line) => line.trim().length > 0);
+  }
+
+  // Split "item1.TEL;TYPE=work,voice;PREF=1:+1 555 0100" into its name,
+  // parameters and value. Grouping prefixes like "item1." are dropped.
+  private static parseLine(raw: string): ContentLine | null {
+    const colon = this.indexOutsideQuotes(raw, ":");
+    if (colon < 0) return null;
+
+    const [nameWithGroup, ...rawParams] = this.splitOutsideQuotes(
+      raw.slice(0, colon),
+      ";"
+    );
+    const name = nameWithGroup.split(".").pop()!.trim().toUpperCase();
+    const params: Record<string, string[]> = {};
+
+    rawParams.forEach((param) => {
+      const equals = param.indexOf("=");
+      // Bare parameters ("TEL;WORK;CELL:") are types
+      const key =
+        equals < 0 ? "TYPE" : param.slice(0, equals).trim().toUpperCase();
+      const values = (equals < 0 ? param : param.slice(equals + 1))
+        .split(",")
+        .map((value) => value.trim().replace(/^"|"$/g, ""))
+        .filter(Boolean);
+      params[key] = [...(params[key] || []), ...values];
+    });
+
+    return { name, params, value: raw.slice(colon + 1) };
+  }
+
+  // Structured values are split on unescaped semicolons; a component that
+  // lists several values ("Ann,Marie") is joined with spaces
+  private static getComponents(value: string): string[] {
+    return this.splitUnescaped(value, ";").map((component) =>
+      this.splitUnescaped(component, ",")
+        .map((part) => this.unescape(part).trim())
+        .filter(Boolean)
+        .join(" ")
+    );
+  }
+
+  private static splitUnescaped(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = "";
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === "\\" && i + 1 < value.length) {
+        current += value[i] + value[i + 1];
+        i++;
+      } else if (value[i] === separator) {
+        parts.push(current);
+        current = "";
+      } else {
+        current += value[i];
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\([nN\\,;:])/g, (_, char: string) =>
+      char === "n" || char === "N" ? "\n" : char
+    );
+  }
+
+  private static indexOutsideQuotes(value: string, char: string): number {
+    let inQuotes = false;
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '"') {
+        inQuotes = !inQuotes;
+      } else if (value[i] === char && !inQuotes) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private static splitOutsideQuotes(value: string, char: string): string[] {
+    const parts: string[] = [];
+    let rest = value;
+    for (
+      let index = this.indexOutsideQuotes(rest, char);
+      index >= 0;
+      index = this.indexOutsideQuotes(rest, char)
+    ) {
+      parts.push(rest.slice(0, index));
+      rest = rest.slice(index + 1);
+    }
+    parts.push(rest);
+    return parts;
+  }
+}
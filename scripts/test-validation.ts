@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { ContactValidationService } from "../lib/contact-validation";
+import { FieldDetectionResult } from "../lib/field-mapping";
+import { ContactField } from "../types/firestore";
+
+// Checks custom field values the way the import worker does: the field
+// documents go through the same projection ImportWorkerClient posts, and
+// are cloned as postMessage would.
+
+const field = (
+  fieldName: string,
+  type: ContactField["type"],
+  options?: string[]
+): ContactField => ({
+  id: fieldName,
+  fieldName,
+  label: fieldName,
+  type,
+  core: false,
+  required: false,
+  ...(options && { options }),
+  // Stands in for a Firestore timestamp, which the projection drops
+  createdOn: {
+    seconds: 0,
+    nanoseconds: 0,
+  } as unknown as ContactField["createdOn"],
+});
+
+const mapping = (
+  columnIndex: number,
+  suggestedField: string
+): FieldDetectionResult => ({
+  columnIndex,
+  columnName: suggestedField,
+  suggestedField,
+  confidence: 100,
+  dataType: "text",
+  sampleData: [],
+  isCustomField: false,
+});
+
+const fields = [
+  field("status", "select", ["Active", "Lead"]),
+  field("tags", "multiselect", ["VIP", "Newsletter"]),
+];
+const rules = structuredClone(ContactValidationService.toFieldRules(fields));
+const bindings = ContactValidationService.getColumnBindings([
+  mapping(0, "firstName"),
+  mapping(1, "lastName"),
+  mapping(2, "email"),
+  mapping(3, "phone"),
+  mapping(4, "status"),
+  mapping(5, "tags"),
+]);
+const person = ["Ann", "Lee", "ann@example.com", "+1 415 555 0100"];
+
+assert.deepEqual(
+  rules.map((rule) => rule.options),
+  [
+    ["Active", "Lead"],
+    ["VIP", "Newsletter"],
+  ],
+  "options reach the worker"
+);
+
+const [valid] = ContactValidationService.validateRows(
+  [[...person, "active", "vip; Newsletter"]],
+  bindings,
+  [2],
+  rules
+);
+assert.deepEqual(valid.errors, []);
+assert.equal(valid.data.status, "Active");
+assert.equal(valid.data.tags, "VIP; Newsletter");
+
+const [invalid] = ContactValidationService.validateRows(
+  [[...person, "Actve", "Gold"]],
+  bindings,
+  [2],
+  rules
+);
+assert.deepEqual(invalid.errors, [
+  'status: "Actve" is not an option. Did you mean "Active"?',
+  'tags: "Gold" is not an option',
+]);
+
+console.log("Validation checks passed");
@@ -5,6 +5,8 @@ export interface Contact {
   firstName: string;
   lastName: string;
   phone: string;
+  // phone in E.164 form ("+442079460958"), used to match duplicates
+  phoneE164?: string;
   email: string;
   agentUid?: string;
   createdOn: Timestamp;
@@ -17,9 +19,18 @@ export interface ContactField {
   id: string;
   label: string;
   fieldName: string;
-  type: "text" | "number" | "phone" | "email" | "datetime" | "checkbox";
+  type:
+    | "text"
+    | "number"
+    | "phone"
+    | "email"
+    | "datetime"
+    | "checkbox"
+    | "select"
+    | "multiselect";
   core: boolean;
   required?: boolean;
+  // Choices of a select or multiselect field
   options?: string[];
   createdOn: Timestamp;
 }
@@ -33,26 +44,86 @@ export interface User {
   active: boolean;
 }
 
+// State of a contact before an import merged into it
+export interface ContactSnapshot {
+  contactId: string;
+  before: Omit<Contact, "id">;
+  // updatedOn written by the merge, used to detect edits made after the import
+  updatedOn: Timestamp;
+}
+
+export interface ImportErrorDetail {
+  row: number;
+  error: string;
+  data: Record<string, string>;
+}
+
+// What a committed import did, row by row. Kept in the session's details
+// subcollection, since a large import outgrows Firestore's 1 MiB document
+// limit.
+export interface ImportSessionDetails {
+  errorDetails: ImportErrorDetail[];
+  createdContactIds: string[];
+  mergedContactIds: string[];
+  mergeSnapshots: ContactSnapshot[];
+}
+
+// A document of /importSessions/{id}/details: one slice of one list
+export interface ImportSessionDetailsChunk {
+  id?: string;
+  list: keyof ImportSessionDetails;
+  index: number;
+  items: ImportSessionDetails[keyof ImportSessionDetails];
+}
+
 export interface ImportSession {
   id?: string;
   fileName: string;
   fileSize: number;
   totalRows: number;
   mappedFields: Record<string, string>;
-  status: "processing" | "completed" | "failed";
+  status:
+    | "pending"
+    | "processing"
+    | "completed"
+    | "failed"
+    | "cancelled"
+    | "reverted";
   results: {
     imported: number;
     merged: number;
     errors: number;
-    errorDetails?: Array<{
-      row: number;
-      error: string;
-      data: any;
-    }>;
+    // Only for uploads and imports that failed as a whole; the rejected
+    // rows of a committed import are in the session's details
+    errorDetails?: ImportErrorDetail[];
   };
   createdBy: string;
   createdOn: Timestamp;
   completedOn?: Timestamp;
+  revertedBy?: string;
+  revertedOn?: Timestamp;
+}
+
+// One step of the cleanup applied to a column's values before validation
+export type ValueTransform =
+  | { type: "trim" }
+  | { type: "case"; mode: "upper" | "lower" | "title" }
+  | {
+      type: "replace";
+      pattern: string;
+      replacement: string;
+      ignoreCase: boolean;
+    }
+  | { type: "lookup"; entries: { from: string; to: string }[] }
+  | { type: "date"; format: string }
+  | { type: "default"; value: string };
+
+// How the numbers of a phone column are read into E.164
+export interface PhoneFormat {
+  // ISO code of the country numbers without a country code are from
+  defaultCountry?: string;
+  // Column holding each row's country, e.g. "Country"
+  countryColumn?: string;
 }
 
 export interface FieldMapping {
@@ -63,4 +134,50 @@ export interface FieldMapping {
   sampleData: string[];
   isCustomField: boolean;
   customFieldConfig?: Partial<ContactField>;
+  // Builds the value from several columns, e.g. "{Street}, {City} {Zip}"
+  combineTemplate?: string;
+  transforms?: ValueTransform[];
+  phoneFormat?: PhoneFormat;
+}
+
+// Column mapping stored in a template. Sample data is never saved.
+export interface TemplateColumnMapping {
+  columnName: string;
+  suggestedField: string;
+  dataType: string;
+  isCustomField: boolean;
+  customFieldConfig?: Partial<ContactField>;
+  // Fields for the parts of a split full name
+  nameSplit?: {
+    prefixField?: string;
+    middleField?: string;
+    suffixField?: string;
+  };
+  combineTemplate?: string;
+  transforms?: ValueTransform[];
+  phoneFormat?: PhoneFormat;
+}
+
+// Named mapping saved from a finished import, re-applied to files with the
+// same headers
+export interface MappingTemplate {
+  id?: string;
+  name: string;
+  // Lowercased, sorted headers of the file the template was saved from
+  headers: string[];
+  mappings: TemplateColumnMapping[];
+  createdBy: string;
+  createdOn: Timestamp;
+  updatedOn?: Timestamp;
+}
+
+// Fields users mapped a header to by hand, learned from mapping corrections.
+// The document id is the encoded header.
+export interface FieldSynonym {
+  id?: string;
+  // Lowercased header with whitespace collapsed
+  header: string;
+  // Number of corrections to each field
+  fields: Record<string, number>;
+  updatedOn: Timestamp;
 }